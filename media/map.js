@@ -0,0 +1,985 @@
+const vscode = acquireVsCodeApi();
+
+let svg, simulation, nodes, links, nodeElements, linkElements, linkHitElements, labelElements;
+let graphData = { nodes: [], edges: [] };
+let showLabels = true;
+let mode = 'calls';
+let collapsedFolders = new Set();
+let componentTreeLayout = false;
+let floatingOnly = false;
+let groupByPackage = false;
+let metric = '';
+let zoomBehavior;
+
+// Filter panel state; it survives graph updates
+let searchQuery = '';
+let searchMatchIndex = 0;
+const hiddenNodeTypes = new Set();
+const hiddenEdgeTypes = new Set();
+let pathIncludes = [];
+let pathExcludes = [];
+let hideExternal = false;
+// Largest depth shown, or null for everything
+let depthLimit = null;
+
+const ASYNC_KIND_TITLES = {
+    awaited: 'Awaited call',
+    returned: 'Promise returned to the caller',
+    chained: 'Promise chained with .then/.catch/.finally',
+    floating: 'Floating promise: neither awaited, returned nor chained'
+};
+
+// Initialize the graph
+function initGraph() {
+    const container = d3.select('#graph-container');
+    const rect = container.node().getBoundingClientRect();
+
+    svg = d3.select('#graph')
+        .attr('width', rect.width)
+        .attr('height', rect.height);
+
+    // Add zoom behavior
+    zoomBehavior = d3.zoom()
+        .scaleExtent([0.1, 10])
+        .on('zoom', (event) => {
+            svg.select('.graph-group').attr('transform', event.transform);
+        });
+
+    svg.call(zoomBehavior);
+
+    // Create main group for graph elements
+    svg.append('g').attr('class', 'graph-group');
+
+    // Initialize simulation
+    simulation = d3.forceSimulation()
+        .force('link', d3.forceLink().id(d => d.id).distance(100))
+        .force('charge', d3.forceManyBody().strength(-300))
+        .force('center', d3.forceCenter(rect.width / 2, rect.height / 2))
+        .force('collision', d3.forceCollide().radius(30));
+}
+
+function updateGraph(data) {
+    console.log('Updating graph with data:', data);
+
+    // Validate input data
+    if (!data || !data.nodes || !data.edges) {
+        console.error('Invalid graph data:', data);
+        return;
+    }
+
+    graphData = data;
+    renderFilterOptions(graphData);
+    data = applyFloatingFilter(applyFolderCollapse(applyPackageGrouping(applyDisplayFilters(data))));
+
+    // Process nodes - create a proper node object with required properties
+    nodes = data.nodes.map((node, index) => {
+        if (!node || !node.id) {
+            console.error('Invalid node at index', index, ':', node);
+            return null;
+        }
+
+        return {
+            ...node,
+            // Ensure we have all required properties for D3 simulation
+            x: node.x || Math.random() * 800,
+            y: node.y || Math.random() * 600,
+            vx: 0, // Initialize velocity
+            vy: 0,
+            fx: null, // Fixed positions
+            fy: null
+        };
+    }).filter(node => node !== null);
+
+    console.log('Valid nodes after processing:', nodes.length);
+    console.log('Node IDs:', nodes.map(n => n.id));
+
+    // Create a map for quick node lookup
+    const nodeMap = new Map(nodes.map(node => [node.id, node]));
+
+    // Process links - ensure source and target reference actual node objects
+    links = data.edges.map((edge, index) => {
+        if (!edge || !edge.source || !edge.target) {
+            console.error('Invalid edge at index', index, ':', edge);
+            return null;
+        }
+
+        const sourceNode = nodeMap.get(edge.source);
+        const targetNode = nodeMap.get(edge.target);
+
+        if (!sourceNode) {
+            console.warn('Missing source node for edge:', edge.source, 'Available nodes:', Array.from(nodeMap.keys()));
+            return null;
+        }
+
+        if (!targetNode) {
+            console.warn('Missing target node for edge:', edge.target, 'Available nodes:', Array.from(nodeMap.keys()));
+            return null;
+        }
+
+        return {
+            source: sourceNode.id, // Use ID string initially, D3 will convert to object
+            target: targetNode.id, // Use ID string initially, D3 will convert to object
+            type: edge.type,
+            isTypeOnly: edge.isTypeOnly,
+            isCycle: edge.isCycle,
+            isPackageBoundary: edge.isPackageBoundary,
+            asyncKind: edge.asyncKind,
+            weight: edge.weight,
+            // Store original IDs for reference
+            sourceId: edge.source,
+            targetId: edge.target
+        };
+    }).filter(link => link !== null);
+
+    console.log('Valid links after processing:', links.length);
+    console.log('Links:', links.map(l => `${l.source} -> ${l.target}`));
+
+    renderCycles(graphData);
+    document.getElementById('layout-button').hidden = !links.some(link => link.type === 'renders');
+    document.getElementById('packages-button').hidden = !graphData.nodes.some(node => node.package && !node.isExternal);
+    renderTruncationNotice(graphData);
+
+    // Stop any existing simulation
+    if (simulation) {
+        simulation.stop();
+    }
+
+    // Update the visualization
+    updateVisualization();
+}
+
+function updateVisualization() {
+    const graphGroup = svg.select('.graph-group');
+
+    // Clear existing elements to prevent duplication
+    graphGroup.selectAll('*').remove();
+
+    // Recreate simulation with current data
+    simulation = d3.forceSimulation(nodes)
+        .force('link', d3.forceLink(links)
+            .id(d => d.id)
+            .distance(100)
+        )
+        .force('charge', d3.forceManyBody().strength(-300))
+        .force('center', d3.forceCenter(svg.attr('width') / 2, svg.attr('height') / 2))
+        .force('collision', d3.forceCollide().radius(30));
+
+    if (componentTreeLayout) {
+        applyComponentTreeLayout();
+    }
+
+    // Create links
+    linkElements = graphGroup.selectAll('.link')
+        .data(links)
+        .enter()
+        .append('line')
+        .attr('class', d => `link ${d.type}${d.isTypeOnly ? ' type-only' : ''}${d.isCycle ? ' cycle' : ''}${d.isPackageBoundary ? ' package-boundary' : ''}${d.asyncKind ? ' async-' + d.asyncKind : ''}`)
+        .style('stroke-width', d => d.weight > 1 ? `${Math.min(1 + Math.log2(d.weight), 6)}px` : null);
+
+    // Wider transparent copies of the links make them easy to hover and click
+    linkHitElements = graphGroup.selectAll('.link-hit')
+        .data(links)
+        .enter()
+        .append('line')
+        .attr('class', d => `link-hit${d.weight ? ' has-call-sites' : ''}`)
+        .on('click', function(event, d) {
+            if (d.weight) {
+                vscode.postMessage({
+                    command: 'showCallSites',
+                    source: d.source.id,
+                    target: d.target.id
+                });
+            }
+        });
+
+    linkHitElements.filter(d => linkTitle(d))
+        .append('title')
+        .text(linkTitle);
+
+    // Create node groups
+    const nodeGroups = graphGroup.selectAll('.node-group')
+        .data(nodes)
+        .enter()
+        .append('g')
+        .attr('class', 'node-group')
+        .call(d3.drag()
+            .on('start', dragstarted)
+            .on('drag', dragged)
+            .on('end', dragended));
+
+    // Add shapes based on node type
+    nodeGroups.each(function(d) {
+        const group = d3.select(this);
+
+        if (d.type === 'folder') {
+            group.append('rect')
+                .attr('width', 28)
+                .attr('height', 20)
+                .attr('x', -14)
+                .attr('y', -10)
+                .attr('rx', 3)
+                .attr('class', nodeClass(d));
+        } else if (d.type === 'library') {
+            group.append('rect')
+                .attr('width', 28)
+                .attr('height', 18)
+                .attr('x', -14)
+                .attr('y', -9)
+                .attr('rx', 9)
+                .attr('class', nodeClass(d));
+        } else if (d.type === 'file') {
+            group.append('rect')
+                .attr('width', 20)
+                .attr('height', 15)
+                .attr('x', -10)
+                .attr('y', -7.5)
+                .attr('class', nodeClass(d));
+        } else if (d.type === 'class') {
+            group.append('polygon')
+                .attr('points', '0,-12 12,0 0,12 -12,0')
+                .attr('class', nodeClass(d));
+        } else {
+            group.append('circle')
+                .attr('r', 8)
+                .attr('class', nodeClass(d));
+        }
+    });
+
+    nodeElements = nodeGroups;
+
+    // Add event handlers to shapes
+    nodeElements.selectAll('rect, circle, polygon')
+        .on('click', function(event, d) {
+            if (d.isPackage) {
+                togglePackages();
+                return;
+            }
+            if (d.type === 'folder') {
+                collapsedFolders.delete(d.group);
+                updateGraph(graphData);
+                return;
+            }
+            vscode.postMessage({
+                command: 'navigateToNode',
+                nodeId: d.id
+            });
+        })
+        .on('contextmenu', function(event, d) {
+            event.preventDefault();
+            if (mode === 'modules') {
+                collapsedFolders.add(d.group);
+                updateGraph(graphData);
+                return;
+            }
+            vscode.postMessage({
+                command: 'showCallers',
+                nodeId: d.id
+            });
+        })
+        .on('mouseover', function(event, d) {
+            showTooltip(event, d);
+        })
+        .on('mouseout', function() {
+            hideTooltip();
+        });
+
+    // Create labels
+    labelElements = graphGroup.selectAll('.node-label')
+        .data(nodes)
+        .enter()
+        .append('text')
+        .attr('class', 'node-label')
+        .text(d => d.name)
+        .style('display', showLabels ? 'block' : 'none');
+
+    applyMetricOverlay();
+    applySearch(false);
+
+    // Set up tick handler
+    simulation.on('tick', () => {
+        [linkElements, linkHitElements].forEach(elements => elements
+            .attr('x1', d => d.source.x)
+            .attr('y1', d => d.source.y)
+            .attr('x2', d => d.target.x)
+            .attr('y2', d => d.target.y));
+
+        nodeElements
+            .attr('transform', d => `translate(${d.x},${d.y})`);
+
+        labelElements
+            .attr('x', d => d.x)
+            .attr('y', d => d.y + 20);
+    });
+
+    console.log('Visualization updated successfully');
+}
+
+function linkTitle(d) {
+    if (d.type === 'dispatch') {
+        return 'Possible dispatch';
+    }
+    const callSites = d.weight ? `${d.weight} call site${d.weight === 1 ? '' : 's'} (click to list)` : '';
+    return [ASYNC_KIND_TITLES[d.asyncKind], callSites].filter(Boolean).join('\n');
+}
+
+function renderTruncationNotice(data) {
+    const notice = document.getElementById('truncation-notice');
+    notice.hidden = !data.truncatedNodeCount;
+    notice.textContent = data.truncatedNodeCount
+        ? `${data.truncatedNodeCount} more node${data.truncatedNodeCount === 1 ? '' : 's'} not shown (codeContextMap.maxNodes)`
+        : '';
+}
+
+function nodeClass(d) {
+    return `node ${d.type}${d.isPackage ? ' package' : ''}${d.isComponent ? ' component' : ''}${d.isExternal ? ' external' : ''}${d.isFocused ? ' focused' : ''}${d.isCycle ? ' cycle' : ''}${d.isDead ? ' dead' : ''}${d.resolution ? ' ' + d.resolution : ''}`;
+}
+
+// Pins the components into a top-down tree along their `renders` edges; other nodes keep floating
+function applyComponentTreeLayout() {
+    const renders = links.filter(link => link.type === 'renders');
+    const parentOf = new Map();
+    const isAncestor = (candidate, id) => {
+        for (let current = id; current !== undefined; current = parentOf.get(current)) {
+            if (current === candidate) {
+                return true;
+            }
+        }
+        return false;
+    };
+
+    // A component rendered from several places hangs under the first; recursion is dropped
+    renders.forEach(link => {
+        const source = link.source.id;
+        const target = link.target.id;
+        if (!parentOf.has(target) && !isAncestor(target, source)) {
+            parentOf.set(target, source);
+        }
+    });
+
+    const members = new Set(renders.flatMap(link => [link.source.id, link.target.id]));
+    // A synthetic root keeps several top-level components in one tree
+    const rows = [{ id: '#root', parentId: null }]
+        .concat(Array.from(members, id => ({ id: id, parentId: parentOf.get(id) || '#root' })));
+    const root = d3.tree().nodeSize([120, 90])(d3.stratify().id(d => d.id).parentId(d => d.parentId)(rows));
+
+    const nodeMap = new Map(nodes.map(node => [node.id, node]));
+    const offsetX = svg.attr('width') / 2;
+    root.descendants().forEach(treeNode => {
+        const node = nodeMap.get(treeNode.id);
+        if (node) {
+            node.fx = offsetX + treeNode.x;
+            node.fy = treeNode.depth * 90;
+        }
+    });
+}
+
+function toggleLayout() {
+    componentTreeLayout = !componentTreeLayout;
+    document.getElementById('layout-button').textContent = componentTreeLayout ? 'Force Layout' : 'Component Tree';
+    updateGraph(graphData);
+}
+
+// Drag functions
+function dragstarted(event, d) {
+    if (!event.active) simulation.alphaTarget(0.3).restart();
+    d.fx = d.x;
+    d.fy = d.y;
+}
+
+function dragged(event, d) {
+    d.fx = event.x;
+    d.fy = event.y;
+}
+
+function dragended(event, d) {
+    if (!event.active) simulation.alphaTarget(0);
+    d.fx = null;
+    d.fy = null;
+}
+
+function showTooltip(event, d) {
+    const lines = [
+        `Type: ${d.type}`,
+        `File: ${d.filePath.split('/').pop() || d.filePath.split('\\').pop()}`,
+        d.workspaceFolder ? `Workspace folder: ${d.workspaceFolder}` : '',
+        d.package ? `Package: ${d.package}` : '',
+        d.line !== undefined ? `Line: ${d.line + 1}` : '',
+        d.resolution === 'ambiguous' ? 'Ambiguous call: several declarations match' : '',
+        d.resolution === 'unresolved' ? 'Unresolved call: no declaration found' : '',
+        d.isDead ? 'Dead code: no export, entry point or caller reaches it' : '',
+        d.metrics ? `Complexity: ${d.metrics.complexity}` : '',
+        d.metrics ? `Lines: ${d.metrics.lines}, parameters: ${d.metrics.parameters}` : '',
+        d.metrics ? `Fan-in: ${d.metrics.fanIn}, fan-out: ${d.metrics.fanOut}` : ''
+    ].filter(Boolean);
+
+    // Names like `<Header>` are text, never markup
+    const tooltip = d3.select('#tooltip').html('');
+    tooltip.append('strong').text(d.name);
+    for (const line of lines) {
+        tooltip.append('br');
+        tooltip.append('span').text(line);
+    }
+    tooltip
+        .style('left', (event.pageX + 10) + 'px')
+        .style('top', (event.pageY - 10) + 'px')
+        .style('opacity', 1);
+}
+
+// Sizes and colors function nodes by the selected metric; hotspots grow and turn red
+function applyMetricOverlay() {
+    if (!nodeElements) {
+        return;
+    }
+
+    const values = nodes.filter(d => d.metrics).map(d => d.metrics[metric]);
+    const max = Math.max(1, ...values);
+    const radius = d3.scaleSqrt().domain([0, max]).range([5, 20]);
+    const color = d3.scaleSequential(d3.interpolateYlOrRd).domain([0, max]);
+    const measured = d => metric && d.metrics;
+
+    nodeElements.selectAll('circle')
+        .attr('r', d => measured(d) ? radius(d.metrics[metric]) : 8)
+        .style('fill', d => measured(d) ? color(d.metrics[metric]) : null);
+    labelElements.attr('dy', d => measured(d) ? radius(d.metrics[metric]) - 8 : null);
+}
+
+function changeMetric(value) {
+    metric = value;
+    applyMetricOverlay();
+}
+
+function hideTooltip() {
+    d3.select('#tooltip').style('opacity', 0);
+}
+
+function resetZoom() {
+    const rect = d3.select('#graph-container').node().getBoundingClientRect();
+    svg.transition().duration(750).call(
+        d3.zoom().transform,
+        d3.zoomIdentity.translate(rect.width / 2, rect.height / 2).scale(1)
+    );
+}
+
+function toggleLabels() {
+    showLabels = !showLabels;
+    if (labelElements) {
+        labelElements.style('display', showLabels ? 'block' : 'none');
+    }
+}
+
+// Replaces the files of each collapsed folder with a single folder node, merging their edges
+function applyFolderCollapse(data) {
+    if (mode !== 'modules' || collapsedFolders.size === 0) {
+        return data;
+    }
+
+    return collapseNodes(
+        data,
+        node => node.group !== undefined && collapsedFolders.has(node.group) ? 'folder:' + node.group : undefined,
+        (node, folderId) => ({
+            id: folderId,
+            name: node.group + '/',
+            type: 'folder',
+            filePath: node.group,
+            group: node.group
+        })
+    );
+}
+
+// Replaces the nodes of each workspace package with a single package node
+function applyPackageGrouping(data) {
+    if (!groupByPackage) {
+        return data;
+    }
+
+    return collapseNodes(
+        data,
+        node => node.package && !node.isExternal ? 'package:' + node.package : undefined,
+        (node, packageId) => ({
+            id: packageId,
+            name: node.package,
+            type: 'folder',
+            filePath: node.package,
+            package: node.package,
+            isPackage: true
+        })
+    );
+}
+
+// Merges the nodes mapped to the same group id into one node; edges inside a group disappear
+function collapseNodes(data, groupIdOf, createGroupNode) {
+    const groupOf = new Map();
+    const collapsedNodes = [];
+    data.nodes.forEach(node => {
+        const groupId = groupIdOf(node);
+        if (!groupId) {
+            collapsedNodes.push(node);
+            return;
+        }
+        groupOf.set(node.id, groupId);
+        if (!collapsedNodes.some(n => n.id === groupId)) {
+            collapsedNodes.push(createGroupNode(node, groupId));
+        }
+    });
+
+    const collapsedEdges = [];
+    data.edges.forEach(edge => {
+        const source = groupOf.get(edge.source) || edge.source;
+        const target = groupOf.get(edge.target) || edge.target;
+        if (source === target) {
+            return;
+        }
+        const existing = collapsedEdges.find(e => e.source === source && e.target === target && e.type === edge.type);
+        if (existing) {
+            existing.isTypeOnly = existing.isTypeOnly && edge.isTypeOnly;
+            existing.isPackageBoundary = existing.isPackageBoundary || edge.isPackageBoundary;
+        } else {
+            collapsedEdges.push({ ...edge, source: source, target: target });
+        }
+    });
+
+    return { nodes: collapsedNodes, edges: collapsedEdges };
+}
+
+// Applies the node type, edge type, path, external and depth filters of the filter panel
+function applyDisplayFilters(data) {
+    const depths = computeDepths(data);
+    const maxDepth = Math.max(0, ...depths.values());
+    const visibleNodes = data.nodes.filter(node => {
+        if (hiddenNodeTypes.has(node.type)) {
+            return false;
+        }
+        if (hideExternal && (node.isExternal || node.resolution || node.filePath === 'unknown')) {
+            return false;
+        }
+        if (depthLimit !== null && depthLimit < maxDepth && !(depths.get(node.id) <= depthLimit)) {
+            return false;
+        }
+        return matchesPathFilters(node);
+    });
+
+    const visibleIds = new Set(visibleNodes.map(node => node.id));
+    const visibleEdges = data.edges.filter(edge =>
+        !hiddenEdgeTypes.has(edge.type) && visibleIds.has(edge.source) && visibleIds.has(edge.target));
+    return { ...data, nodes: visibleNodes, edges: visibleEdges };
+}
+
+// Library and placeholder nodes are left to the external toggle
+function matchesPathFilters(node) {
+    if (node.isExternal || node.filePath === 'unknown') {
+        return true;
+    }
+
+    const filePath = node.filePath.replace(/\\/g, '/');
+    const matches = pattern => pattern.test(filePath);
+    return (pathIncludes.length === 0 || pathIncludes.some(matches)) && !pathExcludes.some(matches);
+}
+
+// `src/api` matches anywhere in the path; `*` matches any run of characters
+function parsePathFilter(value) {
+    return value.split(',')
+        .map(term => term.trim().replace(/\\/g, '/'))
+        .filter(Boolean)
+        .map(term => new RegExp(term.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*'), 'i'));
+}
+
+/**
+ * Distance of every node from the active file, focused function or entry point, in
+ * call or import steps. A file shares the depth of its closest member; containment
+ * only leads from a root to its members, so a shared file does not shortcut deep calls.
+ */
+function computeDepths(data) {
+    const roots = data.nodes.filter(node => node.isActiveFile || node.isFocused || node.entryPointKind);
+    const rootIds = new Set(roots.map(node => node.id));
+    const neighbors = new Map();
+    const connect = (from, to, cost) => {
+        if (!neighbors.has(from)) {
+            neighbors.set(from, []);
+        }
+        neighbors.get(from).push({ id: to, cost: cost });
+    };
+    data.edges.forEach(edge => {
+        if (edge.type === 'contains') {
+            connect(edge.target, edge.source, 0);
+            if (rootIds.has(edge.source)) {
+                connect(edge.source, edge.target, 0);
+            }
+        } else {
+            connect(edge.source, edge.target, 1);
+            connect(edge.target, edge.source, 1);
+        }
+    });
+
+    // 0-1 breadth-first search: free steps go to the front of the queue
+    const depths = new Map(roots.map(node => [node.id, 0]));
+    const queue = roots.map(node => node.id);
+    while (queue.length > 0) {
+        const nodeId = queue.shift();
+        (neighbors.get(nodeId) || []).forEach(next => {
+            const depth = depths.get(nodeId) + next.cost;
+            if (!depths.has(next.id) || depth < depths.get(next.id)) {
+                depths.set(next.id, depth);
+                if (next.cost === 0) {
+                    queue.unshift(next.id);
+                } else {
+                    queue.push(next.id);
+                }
+            }
+        });
+    }
+    return depths;
+}
+
+// Lists a checkbox per node and edge type in the graph and sizes the depth slider
+function renderFilterOptions(data) {
+    renderTypeOptions('node-type-filters', data.nodes.map(node => node.type), hiddenNodeTypes);
+    renderTypeOptions('edge-type-filters', data.edges.map(edge => edge.type), hiddenEdgeTypes);
+
+    const maxDepth = Math.max(0, ...computeDepths(data).values());
+    const slider = document.getElementById('depth-slider');
+    document.getElementById('depth-filter').hidden = maxDepth === 0;
+    slider.max = maxDepth;
+    slider.value = depthLimit === null ? maxDepth : Math.min(depthLimit, maxDepth);
+    document.getElementById('depth-value').textContent = `${slider.value} / ${maxDepth}`;
+}
+
+function renderTypeOptions(containerId, types, hiddenTypes) {
+    const container = document.getElementById(containerId);
+    container.innerHTML = '';
+    Array.from(new Set(types.concat(Array.from(hiddenTypes)))).sort().forEach(type => {
+        const label = document.createElement('label');
+        label.className = 'filter-option';
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = !hiddenTypes.has(type);
+        checkbox.addEventListener('change', () => {
+            if (checkbox.checked) {
+                hiddenTypes.delete(type);
+            } else {
+                hiddenTypes.add(type);
+            }
+            updateGraph(graphData);
+        });
+        label.appendChild(checkbox);
+        label.appendChild(document.createTextNode(' ' + type));
+        container.appendChild(label);
+    });
+}
+
+function changeDepthLimit(value) {
+    const slider = document.getElementById('depth-slider');
+    // At the maximum, the limit follows the graph when it grows
+    depthLimit = Number(value) >= Number(slider.max) ? null : Number(value);
+    updateGraph(graphData);
+}
+
+function changePathFilters() {
+    pathIncludes = parsePathFilter(document.getElementById('path-include-input').value);
+    pathExcludes = parsePathFilter(document.getElementById('path-exclude-input').value);
+    updateGraph(graphData);
+}
+
+function toggleHideExternal(checked) {
+    hideExternal = checked;
+    updateGraph(graphData);
+}
+
+function toggleFilterPanel() {
+    const panel = document.getElementById('filter-panel');
+    panel.hidden = !panel.hidden;
+    if (!panel.hidden) {
+        document.getElementById('search-input').focus();
+    }
+}
+
+/**
+ * Scores how well the query matches the text as a subsequence; 0 means no match.
+ * Consecutive characters and characters starting a word (`getUser`, `user_id`) score higher.
+ */
+function fuzzyScore(query, text) {
+    const lowerText = text.toLowerCase();
+    let score = 0;
+    let streak = 0;
+    let position = 0;
+    for (const char of query.toLowerCase()) {
+        const index = lowerText.indexOf(char, position);
+        if (index === -1) {
+            return 0;
+        }
+        streak = index === position ? streak + 1 : 1;
+        const wordStart = index === 0 || /[^a-z0-9]/i.test(text[index - 1]) || (text[index] !== lowerText[index] && text[index - 1] === lowerText[index - 1]);
+        score += streak + (wordStart ? 2 : 0);
+        position = index + 1;
+    }
+    return score;
+}
+
+// Highlights the rendered nodes matching the search and optionally centers the current match
+function applySearch(center) {
+    if (!nodeElements) {
+        return;
+    }
+
+    const matches = searchQuery
+        ? nodes.map(node => ({ node: node, score: fuzzyScore(searchQuery, node.name) }))
+            .filter(match => match.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .map(match => match.node)
+        : [];
+    const matchIds = new Set(matches.map(node => node.id));
+
+    nodeElements.classed('search-dimmed', d => searchQuery !== '' && !matchIds.has(d.id));
+    nodeElements.selectAll('rect, circle, polygon').classed('search-match', d => matchIds.has(d.id));
+    labelElements.classed('search-dimmed', d => searchQuery !== '' && !matchIds.has(d.id));
+    document.getElementById('search-count').textContent = searchQuery
+        ? (matches.length === 0 ? 'No matches' : `${searchMatchIndex % matches.length + 1} of ${matches.length}`)
+        : '';
+
+    if (center && matches.length > 0) {
+        centerOnNode(matches[searchMatchIndex % matches.length]);
+    }
+}
+
+function changeSearch(value) {
+    searchQuery = value.trim();
+    searchMatchIndex = 0;
+    applySearch(true);
+}
+
+function nextSearchMatch() {
+    searchMatchIndex++;
+    applySearch(true);
+}
+
+function centerOnNode(node) {
+    const rect = d3.select('#graph-container').node().getBoundingClientRect();
+    const scale = Math.max(d3.zoomTransform(svg.node()).k, 1);
+    svg.transition().duration(500).call(
+        zoomBehavior.transform,
+        d3.zoomIdentity.translate(rect.width / 2 - node.x * scale, rect.height / 2 - node.y * scale).scale(scale)
+    );
+}
+
+// Keeps only the floating async calls and the functions on either end of them
+function applyFloatingFilter(data) {
+    if (!floatingOnly) {
+        return data;
+    }
+
+    const edges = data.edges.filter(edge => edge.asyncKind === 'floating');
+    const endpoints = new Set(edges.flatMap(edge => [edge.source, edge.target]));
+    return { nodes: data.nodes.filter(node => endpoints.has(node.id)), edges: edges };
+}
+
+function togglePackages() {
+    groupByPackage = !groupByPackage;
+    document.getElementById('packages-button').textContent = groupByPackage ? 'Expand Packages' : 'Group by Package';
+    updateGraph(graphData);
+}
+
+function toggleFloatingOnly() {
+    floatingOnly = !floatingOnly;
+    document.getElementById('floating-button').textContent = floatingOnly ? 'Show All Calls' : 'Floating Promises Only';
+    updateGraph(graphData);
+}
+
+function renderCycles(data) {
+    const cycles = data.cycles || [];
+    const names = new Map(data.nodes.map(node => [node.id, node.name]));
+    const list = document.getElementById('cycles-list');
+    list.innerHTML = '';
+
+    cycles.forEach(cycle => {
+        const item = document.createElement('li');
+        const label = cycle.type === 'calls' ? 'Call cycle: ' : 'Import cycle: ';
+        const members = cycle.nodeIds.map(id => names.get(id) || id);
+        item.textContent = label + members.concat(members[0]).join(' → ');
+        item.onclick = () => focusCycle(cycle.nodeIds);
+        list.appendChild(item);
+    });
+
+    if (cycles.length === 0) {
+        const item = document.createElement('li');
+        item.textContent = 'No cycles found';
+        list.appendChild(item);
+    }
+
+    document.getElementById('cycles-button').textContent = 'Cycles (' + cycles.length + ')';
+}
+
+function focusCycle(nodeIds) {
+    const members = new Set(nodeIds);
+    if (nodeElements) {
+        nodeElements.selectAll('rect, circle, polygon')
+            .classed('cycle-focus', d => members.has(d.id));
+    }
+}
+
+function toggleCyclesPanel() {
+    const panel = document.getElementById('cycles-panel');
+    panel.hidden = !panel.hidden;
+}
+
+function toggleFolders() {
+    if (collapsedFolders.size > 0) {
+        collapsedFolders.clear();
+    } else {
+        graphData.nodes.forEach(node => {
+            if (node.group !== undefined) {
+                collapsedFolders.add(node.group);
+            }
+        });
+    }
+    document.getElementById('folders-button').textContent =
+        collapsedFolders.size > 0 ? 'Expand Folders' : 'Collapse Folders';
+    updateGraph(graphData);
+}
+
+function changeMode(newMode) {
+    setMode(newMode);
+    vscode.postMessage({ command: 'setMode', mode: mode });
+}
+
+function setMode(newMode) {
+    mode = newMode;
+    document.getElementById('mode-select').value = mode;
+    document.getElementById('folders-button').hidden = mode !== 'modules';
+}
+
+function requestExport() {
+    vscode.postMessage({ command: 'exportGraph' });
+}
+
+// The whole graph with some room around it, whatever part of it the panel shows
+function getExportBounds() {
+    const padding = 20;
+    const box = svg.select('.graph-group').node().getBBox();
+    return {
+        x: box.x - padding,
+        y: box.y - padding,
+        width: Math.ceil(box.width + padding * 2),
+        height: Math.ceil(box.height + padding * 2)
+    };
+}
+
+// Inline the computed styles so the exported image does not depend on VS Code theme variables
+function serializeGraph(bounds) {
+    const svgNode = document.getElementById('graph');
+    const clone = svgNode.cloneNode(true);
+    const originals = svgNode.querySelectorAll('*');
+    const copies = clone.querySelectorAll('*');
+    const properties = ['fill', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+        'font-size', 'font-family', 'text-anchor', 'display', 'opacity'];
+
+    originals.forEach((element, index) => {
+        const style = getComputedStyle(element);
+        // Set through the CSSOM: the CSP blocks writing style attributes directly
+        properties.forEach(property => copies[index].style.setProperty(property, style.getPropertyValue(property)));
+    });
+
+    // Drop the zoom and pan so the view box alone frames the graph
+    clone.querySelector('.graph-group').removeAttribute('transform');
+    clone.setAttribute('viewBox', `${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`);
+    clone.setAttribute('width', bounds.width);
+    clone.setAttribute('height', bounds.height);
+
+    const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+    background.setAttribute('x', bounds.x);
+    background.setAttribute('y', bounds.y);
+    background.setAttribute('width', bounds.width);
+    background.setAttribute('height', bounds.height);
+    background.setAttribute('fill', getComputedStyle(document.body).backgroundColor);
+    clone.insertBefore(background, clone.firstChild);
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+
+    return new XMLSerializer().serializeToString(clone);
+}
+
+function exportImage(format) {
+    const bounds = getExportBounds();
+    const svgText = serializeGraph(bounds);
+    if (format === 'svg') {
+        vscode.postMessage({ command: 'imageExported', format: 'svg', data: svgText });
+        return;
+    }
+
+    const image = new Image();
+    image.onload = () => {
+        // Render at the screen's pixel density so the PNG stays sharp
+        const scale = window.devicePixelRatio || 1;
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(bounds.width * scale);
+        canvas.height = Math.ceil(bounds.height * scale);
+        canvas.getContext('2d').drawImage(image, 0, 0, canvas.width, canvas.height);
+        const data = canvas.toDataURL('image/png').split(',')[1];
+        vscode.postMessage({ command: 'imageExported', format: 'png', data: data });
+    };
+    image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svgText);
+}
+
+function highlightFile(filePath) {
+    if (nodeElements) {
+        nodeElements.selectAll('rect, circle, polygon')
+            .classed('highlighted', d => d.filePath === filePath);
+    }
+}
+
+// Message handler
+window.addEventListener('message', event => {
+    const message = event.data;
+    switch (message.command) {
+        case 'updateGraph':
+            if (message.mode) {
+                setMode(message.mode);
+            }
+            updateGraph(message.data);
+            break;
+        case 'setMode':
+            setMode(message.mode);
+            break;
+        case 'exportImage':
+            exportImage(message.format);
+            break;
+        case 'highlightFile':
+            highlightFile(message.filePath);
+            break;
+    }
+});
+
+// Initialize when DOM is ready
+document.addEventListener('DOMContentLoaded', () => {
+    // Inline event handlers are blocked by the CSP
+    document.getElementById('filters-button').addEventListener('click', toggleFilterPanel);
+    document.getElementById('reset-zoom-button').addEventListener('click', resetZoom);
+    document.getElementById('labels-button').addEventListener('click', toggleLabels);
+    document.getElementById('mode-select').addEventListener('change', event => changeMode(event.target.value));
+    document.getElementById('folders-button').addEventListener('click', toggleFolders);
+    document.getElementById('layout-button').addEventListener('click', toggleLayout);
+    document.getElementById('metric-select').addEventListener('change', event => changeMetric(event.target.value));
+    document.getElementById('packages-button').addEventListener('click', togglePackages);
+    document.getElementById('floating-button').addEventListener('click', toggleFloatingOnly);
+    document.getElementById('export-button').addEventListener('click', requestExport);
+    document.getElementById('cycles-button').addEventListener('click', toggleCyclesPanel);
+    document.getElementById('search-input').addEventListener('input', event => changeSearch(event.target.value));
+    document.getElementById('search-input').addEventListener('keydown', event => {
+        if (event.key === 'Enter') {
+            nextSearchMatch();
+        }
+    });
+    document.getElementById('path-include-input').addEventListener('change', changePathFilters);
+    document.getElementById('path-exclude-input').addEventListener('change', changePathFilters);
+    document.getElementById('hide-external-checkbox').addEventListener('change', event => toggleHideExternal(event.target.checked));
+    document.getElementById('depth-slider').addEventListener('input', event => changeDepthLimit(event.target.value));
+
+    initGraph();
+    vscode.postMessage({ command: 'ready' });
+});
+
+// Handle window resize
+window.addEventListener('resize', () => {
+    const container = d3.select('#graph-container');
+    const rect = container.node().getBoundingClientRect();
+    svg.attr('width', rect.width).attr('height', rect.height);
+    simulation.force('center', d3.forceCenter(rect.width / 2, rect.height / 2));
+    simulation.alpha(0.3).restart();
+});
@@ -0,0 +1,162 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface AnalyzerSettings {
+    // Call levels followed from the functions of the active file
+    maxDepth: number;
+    // Globs relative to the workspace folder; when given, only matching files are analyzed
+    include: string[];
+    exclude: string[];
+    // Skip what the .gitignore files inside the workspace folder ignore
+    useGitignore: boolean;
+    extensions: string[];
+    // Larger graphs keep the nodes closest to the active file or function
+    maxNodes: number;
+    // Show calls into libraries and the globals of the runtime
+    includeExternals: boolean;
+}
+
+export const DEFAULT_ANALYZER_SETTINGS: AnalyzerSettings = {
+    maxDepth: 15,
+    include: [],
+    exclude: ['**/node_modules/**', '**/.git/**', '**/dist/**', '**/build/**', '**/out/**', '**/.vscode/**', '**/.next/**'],
+    useGitignore: true,
+    extensions: ['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts', '.mjs', '.cjs', '.vue'],
+    maxNodes: 500,
+    includeExternals: true
+};
+
+interface IgnoreRule {
+    pattern: RegExp;
+    negated: boolean;
+    directoryOnly: boolean;
+}
+
+export function isSupportedFile(filePath: string, extensions: string[]): boolean {
+    return extensions.some(extension => filePath.endsWith(extension)) && !/\.d\.[mc]?ts$/.test(filePath);
+}
+
+/**
+ * Compiles a VS Code style glob (`**`, `*`, `?`, `{a,b}`, `[abc]`) matched against
+ * a relative path with forward slashes.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let braceDepth = 0;
+    for (let index = 0; index < glob.length; index++) {
+        const char = glob[index];
+        if (char === '*' && glob[index + 1] === '*') {
+            // `**/` matches any number of folders, including none
+            const folders = glob[index + 2] === '/';
+            source += folders ? '(?:.*/)?' : '.*';
+            index += folders ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            source += '(?:';
+            braceDepth++;
+        } else if (char === '}' && braceDepth > 0) {
+            source += ')';
+            braceDepth--;
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else if (char === '[' && glob.indexOf(']', index) > index) {
+            const end = glob.indexOf(']', index);
+            source += '[' + glob.slice(index + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+            index = end;
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Decides which files of a workspace folder are analyzed, from the supported
+ * extensions, the include and exclude globs and the .gitignore files found on the way.
+ */
+export class WorkspaceFileFilter {
+    private include: RegExp[];
+    private exclude: RegExp[];
+    private gitignoreRules = new Map<string, IgnoreRule[]>();
+
+    constructor(private readonly root: string, private readonly settings: AnalyzerSettings) {
+        this.include = settings.include.map(globToRegExp);
+        this.exclude = settings.exclude.map(globToRegExp);
+    }
+
+    public isExcludedDirectory(directory: string): boolean {
+        const relativePath = this.getRelativePath(directory);
+        // `**/dist/**` names the contents of a folder, `**/.git` the folder itself
+        return this.exclude.some(pattern => pattern.test(relativePath) || pattern.test(relativePath + '/')) ||
+            this.isIgnoredByGit(directory, true);
+    }
+
+    public isIncludedFile(filePath: string): boolean {
+        const relativePath = this.getRelativePath(filePath);
+        return isSupportedFile(filePath, this.settings.extensions) &&
+            (this.include.length === 0 || this.include.some(pattern => pattern.test(relativePath))) &&
+            !this.exclude.some(pattern => pattern.test(relativePath)) &&
+            !this.isIgnoredByGit(filePath, false);
+    }
+
+    // Applies the .gitignore files from the root down to the path's folder; the last matching rule wins
+    private isIgnoredByGit(fullPath: string, isDirectory: boolean): boolean {
+        if (!this.settings.useGitignore) {
+            return false;
+        }
+
+        let ignored = false;
+        const folders = path.relative(this.root, path.dirname(fullPath)).split(path.sep).filter(Boolean);
+        for (let depth = 0; depth <= folders.length; depth++) {
+            const directory = path.join(this.root, ...folders.slice(0, depth));
+            const relativePath = path.relative(directory, fullPath).split(path.sep).join('/');
+            for (const rule of this.getGitignoreRules(directory)) {
+                if ((!rule.directoryOnly || isDirectory) && rule.pattern.test(relativePath)) {
+                    ignored = !rule.negated;
+                }
+            }
+        }
+        return ignored;
+    }
+
+    private getGitignoreRules(directory: string): IgnoreRule[] {
+        let rules = this.gitignoreRules.get(directory);
+        if (!rules) {
+            try {
+                rules = parseGitignore(fs.readFileSync(path.join(directory, '.gitignore'), 'utf-8'));
+            } catch {
+                rules = [];
+            }
+            this.gitignoreRules.set(directory, rules);
+        }
+        return rules;
+    }
+
+    private getRelativePath(fullPath: string): string {
+        return path.relative(this.root, fullPath).split(path.sep).join('/');
+    }
+}
+
+function parseGitignore(content: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        let line = rawLine.trimEnd();
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        const negated = line.startsWith('!');
+        line = negated ? line.slice(1) : line;
+        const directoryOnly = line.endsWith('/');
+        line = line.replace(/\/+$/, '');
+        // Patterns with a slash are relative to the .gitignore, the others match at any depth
+        const anchored = line.includes('/');
+        line = line.replace(/^\//, '');
+
+        rules.push({ pattern: globToRegExp(anchored ? line : `**/${line}`), negated, directoryOnly });
+    }
+    return rules;
+}
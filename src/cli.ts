@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeAnalyzer } from './codeAnalyzer';
+import { annotateCycles } from './cycleDetector';
+import { exportGraph, TextExportFormat } from './graphExporter';
+
+interface CliOptions {
+    entry: string;
+    root: string;
+    depth: number;
+    format: TextExportFormat;
+    output?: string;
+}
+
+const USAGE = `Usage: code-context-map analyze <entry> [options]
+
+Builds the call graph of <entry> with the same analyzer the extension uses.
+
+Options:
+  --depth <n>        Maximum call depth to follow (default: 15)
+  --format <format>  Output format: json, dot or mermaid (default: json)
+  --root <dir>       Workspace root used to discover related files (default: current directory)
+  --output <file>    Write the graph to <file> instead of stdout
+  --help             Show this message`;
+
+class CliError extends Error {}
+
+export function parseArgs(args: string[]): CliOptions {
+    const [command, ...rest] = args;
+    if (command !== 'analyze') {
+        throw new CliError(command ? `Unknown command: ${command}` : 'Missing command');
+    }
+
+    const options: Partial<CliOptions> = {
+        root: process.cwd(),
+        depth: 15,
+        format: 'json'
+    };
+
+    for (let i = 0; i < rest.length; i++) {
+        const arg = rest[i];
+        const value = (): string => {
+            const next = rest[++i];
+            if (next === undefined) {
+                throw new CliError(`Missing value for ${arg}`);
+            }
+            return next;
+        };
+
+        switch (arg) {
+            case '--depth': {
+                const depth = Number(value());
+                if (!Number.isInteger(depth) || depth < 0) {
+                    throw new CliError('--depth must be a non-negative integer');
+                }
+                options.depth = depth;
+                break;
+            }
+            case '--format': {
+                const format = value();
+                if (format !== 'json' && format !== 'dot' && format !== 'mermaid') {
+                    throw new CliError(`Unsupported format: ${format}`);
+                }
+                options.format = format;
+                break;
+            }
+            case '--root':
+                options.root = path.resolve(value());
+                break;
+            case '--output':
+                options.output = path.resolve(value());
+                break;
+            default:
+                if (arg.startsWith('--') || options.entry) {
+                    throw new CliError(`Unexpected argument: ${arg}`);
+                }
+                options.entry = path.resolve(arg);
+        }
+    }
+
+    if (!options.entry) {
+        throw new CliError('Missing <entry> file');
+    }
+
+    return options as CliOptions;
+}
+
+export async function run(args: string[]): Promise<number> {
+    if (args.includes('--help') || args.includes('-h')) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    let options: CliOptions;
+    try {
+        options = parseArgs(args);
+    } catch (error) {
+        if (error instanceof CliError) {
+            console.error(`${error.message}\n\n${USAGE}`);
+            return 1;
+        }
+        throw error;
+    }
+
+    if (!fs.existsSync(options.entry)) {
+        console.error(`Entry file not found: ${options.entry}`);
+        return 1;
+    }
+
+    const analyzer = new CodeAnalyzer();
+    const graph = annotateCycles(analyzer.annotatePackages(await analyzer.analyzeActiveFile(options.entry, options.root, options.depth)));
+    const content = exportGraph(graph, options.format);
+
+    if (options.output) {
+        fs.writeFileSync(options.output, content);
+    } else {
+        process.stdout.write(content);
+    }
+
+    return 0;
+}
+
+if (require.main === module) {
+    run(process.argv.slice(2)).then(
+        exitCode => {
+            process.exitCode = exitCode;
+        },
+        error => {
+            console.error('Error analyzing call graph:', error);
+            process.exitCode = 1;
+        }
+    );
+}
@@ -1,47 +1,883 @@
 import * as ts from 'typescript';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as vscode from 'vscode';
-import { GraphData, GraphNode, GraphEdge } from './types';
+import { GraphData, GraphNode, GraphEdge, CodeContext, ImportCycle, EntryPoint, AsyncCallKind, CallSite, FunctionMetrics } from './types';
+import { findCycles } from './cycleDetector';
+import { DEFAULT_ENTRY_POINT_DETECTORS, EntryPointDetector } from './entryPointDetector';
+import { TsConfigResolver } from './tsConfigResolver';
+import { WorkspacePackageResolver } from './workspacePackages';
+import { AnalyzerSettings, DEFAULT_ANALYZER_SETTINGS, WorkspaceFileFilter, isSupportedFile } from './analyzerSettings';
+import { extractVueScript, isVueFile } from './vueScriptBlocks';
+
+interface ImportInfo {
+    modulePath: string;
+    importedNames: string[];
+    isTypeOnly?: boolean;
+    // `export ... from` declarations: followed like imports but bind no local names
+    isReExport?: boolean;
+    // Position of the module specifier
+    line?: number;
+    column?: number;
+}
+
+// Per-file analysis results that survive between runs until the file (or a file it imports) changes
+interface FileIndexEntry {
+    version: string;
+    imports: ImportInfo[];
+    resolvedImports: Set<string>;
+    // Declares classes or interfaces with `extends`/`implements` clauses, which calls may dispatch to
+    declaresSubtypes: boolean;
+    calls?: CallMap;
+    sizeMetrics?: Map<string, SizeMetrics>;
+}
+
+// The metrics of a function that depend on its own source only; fan-in and fan-out need the whole call map
+type SizeMetrics = Pick<FunctionMetrics, 'complexity' | 'lines' | 'parameters'>;
+
+// How a function reaches a callee: a direct call, a reference handed to other code
+// (callbacks, handlers assigned to properties), a component rendered through JSX, or
+// a possible dispatch from an interface or base class member to a member that
+// implements or overrides it
+interface CallInfo {
+    type: 'calls' | 'references' | 'renders' | 'dispatch';
+    // How the promise returned by an async call is handled
+    asyncKind?: AsyncCallKind;
+    // Where the caller reaches the callee; dispatch and entry point edges have none
+    sites?: CallSite[];
+}
+
+// Caller id -> callee id -> call details
+type CallMap = Map<string, Map<string, CallInfo>>;
+
+const CALL_TYPE_STRENGTH: Record<CallInfo['type'], number> = {
+    dispatch: 0,
+    references: 1,
+    renders: 2,
+    calls: 3
+};
+
+// A declaration the call graph models as a function node
+interface FunctionInfo {
+    id: string;
+    // `Container.member` for class and object literal members, the plain name otherwise
+    name: string;
+    memberName: string;
+    // The class or object literal the member belongs to
+    containerName?: string;
+    // The declaring node, used for positions and for collecting calls
+    node: ts.Node;
+    body?: ts.ConciseBody;
+    // Function components, and the render method of class components
+    isComponent?: boolean;
+}
 
 export class CodeAnalyzer {
     private program?: ts.Program;
     private checker?: ts.TypeChecker;
-    private astCache = new Map<string, ts.SourceFile>();
+    private astCache = new Map<string, { version: string, sourceFile: ts.SourceFile }>();
+    private fileIndex = new Map<string, FileIndexEntry>();
+    private workspaceFilesCache = new Map<string, Set<string>>();
+    // Every folder of a multi-root workspace; imports between them are followed like any other
+    private workspaceRoots: string[] = [];
     private processedFiles = new Set<string>();
     private importGraph = new Map<string, Set<string>>();
-
-    public async analyzeActiveFile(activeFilePath: string, workspacePath?: string): Promise<GraphData> {
+    // Declarations of the library functions called from the workspace, by `external:<package>:<symbol>` id
+    private externalSymbols = new Map<string, { packageName: string, symbolName: string, filePath: string, line: number, column: number }>();
+    // Packages whose JavaScript entry modules are analyzed instead of their type declarations
+    private drillInPackages = new Set<string>();
+    // Metrics of the functions in the current program, filled by collectAllFunctions
+    private functionMetrics = new Map<string, FunctionMetrics>();
+    private packageResolver = new WorkspacePackageResolver();
+    private configResolver = new TsConfigResolver(this.packageResolver);
+    private entryPointDetectors: EntryPointDetector[] = [...DEFAULT_ENTRY_POINT_DETECTORS];
+    private settings: AnalyzerSettings = { ...DEFAULT_ANALYZER_SETTINGS };
+
+    public async analyzeActiveFile(activeFilePath: string, workspacePath?: string, maxDepth: number = this.settings.maxDepth): Promise<GraphData> {
         // Reset state for new analysis
         this.processedFiles.clear();
         this.importGraph.clear();
 
         // Get all related files starting from active file
+        const relatedFiles = await this.getAllRelatedFiles(activeFilePath, workspacePath, true);
+
+
+        this.createProgram(Array.from(relatedFiles), activeFilePath);
+
+        // Analyze the active file and build call graph
+        return this.buildCallGraphFromActiveFile(activeFilePath, maxDepth);
+    }
+
+    /**
+     * Builds the incoming call tree of a function: every function in the workspace
+     * that (transitively) calls it. Edges keep the caller -> callee direction.
+     */
+    public async analyzeCallers(targetFunctionId: string, workspacePath?: string, maxDepth: number = this.settings.maxDepth): Promise<GraphData> {
+        const target = this.parseFunctionId(targetFunctionId);
+        if (!target) {
+            return { nodes: [], edges: [] };
+        }
+
+        // Callers can only live in files that (transitively) import the target's file
+        const dependentFiles = await this.getDependentFiles(target.filePath, workspacePath);
+        this.createProgram(Array.from(dependentFiles), target.filePath);
+
+        const functionCallMap: CallMap = new Map();
+        this.collectAllFunctions(functionCallMap);
+
+        // Callee id -> caller id -> call details
+        const callersMap: CallMap = new Map();
+        functionCallMap.forEach((calls, callerId) => {
+            calls.forEach((call, calleeId) => {
+                this.getCalls(callersMap, calleeId).set(callerId, call);
+            });
+        });
+
+        const nodes: GraphNode[] = [];
+        const edges: GraphEdge[] = [];
+        const targetNode = this.createFunctionNode(targetFunctionId);
+        if (!targetNode) {
+            return { nodes, edges };
+        }
+
+        targetNode.isFocused = true;
+        nodes.push(targetNode);
+        this.addFileNode(targetNode, nodes, edges);
+        this.buildCallerChain(targetFunctionId, callersMap, nodes, edges, new Set<string>(), maxDepth);
+
+        return { nodes, edges };
+    }
+
+    /**
+     * Builds the outgoing call graph rooted at a single function, limited to
+     * `depth` levels of calls below it.
+     */
+    public async analyzeFunction(functionId: string, workspacePath?: string, depth: number = 3): Promise<GraphData> {
+        const nodes: GraphNode[] = [];
+        const edges: GraphEdge[] = [];
+        const target = this.parseFunctionId(functionId);
+        if (!target) {
+            return { nodes, edges };
+        }
+
+        this.processedFiles.clear();
+        this.importGraph.clear();
+
+        const relatedFiles = await this.getAllRelatedFiles(target.filePath, workspacePath, true);
+        this.createProgram(Array.from(relatedFiles), target.filePath);
+
+        const functionCallMap: CallMap = new Map();
+        this.collectAllFunctions(functionCallMap);
+
+        const rootNode = this.createFunctionNode(functionId);
+        if (!rootNode) {
+            return { nodes, edges };
+        }
+
+        rootNode.isFocused = true;
+        nodes.push(rootNode);
+        this.addFileNode(rootNode, nodes, edges);
+
+        this.buildCallChain(functionId, functionCallMap, nodes, edges, new Set<string>(), depth);
+
+        return { nodes, edges };
+    }
+
+    /**
+     * Resolves the innermost function or method enclosing the given zero-based
+     * position. `functionName`/`className` are left unset outside any function.
+     */
+    public getCodeContextAtPosition(filePath: string, line: number, column: number, content?: string): CodeContext {
+        const normalizedPath = path.normalize(filePath);
+        const context: CodeContext = { filePath: normalizedPath, line, column };
+
+        let text = content;
+        if (text === undefined) {
+            try {
+                text = fs.readFileSync(normalizedPath, 'utf-8');
+            } catch {
+                return context;
+            }
+        }
+
+        const sourceFile = this.createStandaloneSourceFile(normalizedPath, text);
+        const lineCount = sourceFile.getLineStarts().length;
+        const position = sourceFile.getPositionOfLineAndCharacter(Math.min(line, lineCount - 1), 0) + column;
+
+        const visit = (node: ts.Node) => {
+            if (position < node.getStart(sourceFile) || position > node.getEnd()) {
+                return;
+            }
+
+            const functionInfo = this.getFunctionInfo(node, normalizedPath);
+            if (functionInfo) {
+                context.functionName = functionInfo.memberName;
+                context.className = functionInfo.containerName;
+            }
+
+            ts.forEachChild(node, visit);
+        };
+
+        visit(sourceFile);
+        return context;
+    }
+
+    /**
+     * Maps a code context to the id the call graph uses for that function.
+     */
+    public getFunctionIdForContext(context: CodeContext): string | undefined {
+        if (!context.functionName) {
+            return undefined;
+        }
+
+        return context.className
+            ? `method:${context.filePath}:${context.className}:${context.functionName}`
+            : `function:${context.filePath}:${context.functionName}`;
+    }
+
+    public getFunctionIdAtPosition(filePath: string, line: number, column: number, content?: string): string | undefined {
+        return this.getFunctionIdForContext(this.getCodeContextAtPosition(filePath, line, column, content));
+    }
+
+    // The file declaring a function, or undefined for placeholders of external, unresolved and ambiguous calls
+    public getFilePathForFunctionId(functionId: string): string | undefined {
+        return this.isPlaceholderFunctionId(functionId) ? undefined : this.parseFunctionId(functionId)?.filePath;
+    }
+
+    /**
+     * Builds the type-structure view of a file: its classes (containing their methods),
+     * interfaces, enums and the module-level variables its functions reference, with
+     * extends/implements edges resolved through the type checker.
+     */
+    public async analyzeTypeStructure(activeFilePath: string, workspacePath?: string): Promise<GraphData> {
+        const nodes: GraphNode[] = [];
+        const edges: GraphEdge[] = [];
+
+        this.processedFiles.clear();
+        this.importGraph.clear();
+
         const relatedFiles = await this.getAllRelatedFiles(activeFilePath, workspacePath);
+        this.createProgram(Array.from(relatedFiles), activeFilePath);
+
+        const sourceFile = this.program!.getSourceFile(activeFilePath);
+        if (!sourceFile) {
+            return { nodes, edges };
+        }
+
+        nodes.push({
+            id: `file:${activeFilePath}`,
+            name: path.basename(activeFilePath),
+            type: 'file',
+            filePath: activeFilePath,
+            isActiveFile: true
+        });
+
+        for (const statement of sourceFile.statements) {
+            if (ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+                this.addTypeDeclarationNode(statement, nodes, edges);
+            }
+        }
+
+        this.addVariableReferences(sourceFile, nodes, edges);
+
+        return { nodes, edges };
+    }
 
+    /**
+     * Builds the file-level dependency view: every file reachable from the active
+     * file through imports, with `import` edges (flagged when type-only) and
+     * `export` edges for re-exports. Files are grouped by folder.
+     */
+    public async analyzeModuleDependencies(activeFilePath: string, workspacePath?: string): Promise<GraphData> {
+        const nodes: GraphNode[] = [];
+        const edges: GraphEdge[] = [];
+
+        this.processedFiles.clear();
+        this.importGraph.clear();
+
+        const relatedFiles = await this.getAllRelatedFiles(activeFilePath, workspacePath);
+
+        for (const filePath of relatedFiles) {
+            const folder = path.dirname(filePath);
+            nodes.push({
+                id: `file:${filePath}`,
+                name: path.basename(filePath),
+                type: 'file',
+                filePath,
+                group: this.getFolderGroup(folder, workspacePath),
+                isActiveFile: filePath === activeFilePath || undefined
+            });
+        }
+
+        for (const filePath of relatedFiles) {
+            for (const importInfo of await this.getImportsFromFilePath(filePath)) {
+                const resolvedPath = this.resolveImportPath(importInfo.modulePath, filePath);
+                if (!resolvedPath || !relatedFiles.has(resolvedPath) || resolvedPath === filePath) {
+                    continue;
+                }
+
+                const source = `file:${filePath}`;
+                const target = `file:${resolvedPath}`;
+                const type = importInfo.isReExport ? 'export' : 'import';
+                const existing = edges.find(e => e.source === source && e.target === target && e.type === type);
+
+                // A single value import makes the whole dependency a value dependency
+                if (existing) {
+                    existing.isTypeOnly = existing.isTypeOnly && importInfo.isTypeOnly;
+                } else {
+                    edges.push({ source, target, type, isTypeOnly: importInfo.isTypeOnly });
+                }
+            }
+        }
+
+        return { nodes, edges };
+    }
+
+    /**
+     * Finds the runtime import cycles among the files reachable from the active
+     * file, with the import declarations that form each cycle.
+     */
+    public async findImportCycles(activeFilePath: string, workspacePath?: string): Promise<ImportCycle[]> {
+        const graph = await this.analyzeModuleDependencies(activeFilePath, workspacePath);
+        const runtimeEdges = graph.edges.filter(e => !e.isTypeOnly);
+        const cycles: ImportCycle[] = [];
+
+        for (const component of findCycles(runtimeEdges)) {
+            const files = component.map(nodeId => nodeId.substring('file:'.length));
+            const members = new Set(files);
+            const cycle: ImportCycle = { files, imports: [] };
+
+            for (const filePath of files) {
+                for (const importInfo of await this.getImportsFromFilePath(filePath)) {
+                    if (importInfo.isTypeOnly) {
+                        continue;
+                    }
+
+                    const resolvedPath = this.resolveImportPath(importInfo.modulePath, filePath);
+                    if (resolvedPath && members.has(resolvedPath)) {
+                        cycle.imports.push({
+                            filePath,
+                            targetFilePath: resolvedPath,
+                            modulePath: importInfo.modulePath,
+                            line: importInfo.line ?? 0,
+                            column: importInfo.column ?? 0
+                        });
+                    }
+                }
+            }
+
+            cycles.push(cycle);
+        }
 
-        // Create TypeScript program with all related files
-        const compilerOptions: ts.CompilerOptions = {
-            target: ts.ScriptTarget.ES2020,
-            module: ts.ModuleKind.CommonJS,
-            allowJs: true,
-            checkJs: false,
-            declaration: false,
-            outDir: './out',
-            strict: false,
-            esModuleInterop: true,
-            skipLibCheck: true,
-            forceConsistentCasingInFileNames: true
+        return cycles;
+    }
+
+    /**
+     * Tags nodes with the workspace package containing them and flags the edges that
+     * cross from one package into another. Mutates and returns the graph.
+     */
+    public annotatePackages(graph: GraphData): GraphData {
+        const packageOf = new Map<string, string>();
+        for (const node of graph.nodes) {
+            const workspacePackage = node.filePath !== 'unknown' && !node.isExternal ? this.packageResolver.getPackageForFile(node.filePath) : undefined;
+            if (workspacePackage) {
+                node.package = workspacePackage.name;
+                packageOf.set(node.id, workspacePackage.name);
+            }
+        }
+
+        for (const edge of graph.edges) {
+            const sourcePackage = packageOf.get(edge.source);
+            const targetPackage = packageOf.get(edge.target);
+            if (sourcePackage && targetPackage && sourcePackage !== targetPackage) {
+                edge.isPackageBoundary = true;
+            }
+        }
+
+        return graph;
+    }
+
+    /**
+     * Calls into these packages resolve to the functions of their JavaScript entry
+     * modules, one level deep: the calls those functions make are not followed.
+     */
+    public setDrillInPackages(packageNames: string[]): void {
+        const changed = packageNames.length !== this.drillInPackages.size || packageNames.some(name => !this.drillInPackages.has(name));
+        this.drillInPackages = new Set(packageNames);
+        if (changed) {
+            // Calls into these packages now resolve differently
+            for (const entry of this.fileIndex.values()) {
+                entry.calls = undefined;
+            }
+        }
+    }
+
+    public setSettings(settings: Partial<AnalyzerSettings>): void {
+        this.settings = { ...this.settings, ...settings };
+        // The extensions and globs decide which files belong to the workspace
+        this.workspaceFilesCache.clear();
+    }
+
+    public isSupportedFile(filePath: string): boolean {
+        return isSupportedFile(filePath, this.settings.extensions);
+    }
+
+    /**
+     * Cuts a graph down to `maxNodes` nodes, keeping the ones closest to the active
+     * file, the focused function or the entry point. Edges to dropped nodes go too.
+     */
+    public limitGraph(graph: GraphData): GraphData {
+        const maxNodes = this.settings.maxNodes;
+        if (graph.nodes.length <= maxNodes) {
+            return graph;
+        }
+
+        const neighbors = new Map<string, string[]>();
+        for (const edge of graph.edges) {
+            for (const [from, to] of [[edge.source, edge.target], [edge.target, edge.source]]) {
+                if (!neighbors.has(from)) {
+                    neighbors.set(from, []);
+                }
+                neighbors.get(from)!.push(to);
+            }
+        }
+
+        // Breadth-first from the roots; nodes they do not reach follow in graph order
+        const kept = new Set<string>();
+        const queue = graph.nodes.filter(node => node.isActiveFile || node.isFocused || node.entryPointKind).map(node => node.id);
+        while (kept.size < maxNodes) {
+            const nodeId = queue.shift() ?? graph.nodes.find(node => !kept.has(node.id))!.id;
+            if (!kept.has(nodeId)) {
+                kept.add(nodeId);
+                queue.push(...(neighbors.get(nodeId) ?? []));
+            }
+        }
+
+        return {
+            ...graph,
+            nodes: graph.nodes.filter(node => kept.has(node.id)),
+            edges: graph.edges.filter(edge => kept.has(edge.source) && kept.has(edge.target)),
+            truncatedNodeCount: graph.nodes.length - kept.size
         };
+    }
+
+    public setWorkspaceRoots(roots: string[]): void {
+        this.workspaceRoots = roots.map(root => path.normalize(root));
+    }
+
+    public registerEntryPointDetector(detector: EntryPointDetector): void {
+        this.entryPointDetectors.push(detector);
+    }
+
+    /**
+     * Runs the entry point detectors over every file in the workspace.
+     */
+    public async findEntryPoints(workspacePath: string): Promise<EntryPoint[]> {
+        const workspaceFiles = Array.from(await this.getFilesOfAllRoots(workspacePath));
+        if (workspaceFiles.length === 0) {
+            return [];
+        }
+
+        this.createProgram(workspaceFiles, workspaceFiles[0]);
+        return this.detectEntryPoints();
+    }
+
+    /**
+     * Finds the functions and methods no export, entry point or module-level code reaches
+     * through calls, renders, references or dispatches. Accessors are left out: reading
+     * a property is not a call, so the call graph cannot tell whether they are used.
+     */
+    public async findDeadCode(workspacePath: string): Promise<GraphNode[]> {
+        const workspaceFiles = Array.from(await this.getFilesOfAllRoots(workspacePath));
+        if (workspaceFiles.length === 0) {
+            return [];
+        }
+
+        this.createProgram(workspaceFiles, workspaceFiles[0]);
+        const functionCallMap: CallMap = new Map();
+        this.collectAllFunctions(functionCallMap);
+
+        const roots = new Set(this.detectEntryPoints().flatMap(entryPoint => entryPoint.targets));
+        const functionInfos: FunctionInfo[] = [];
+        for (const sourceFile of this.program!.getSourceFiles()) {
+            if (sourceFile.isDeclarationFile || sourceFile.fileName.includes('node_modules')) {
+                continue;
+            }
+
+            functionInfos.push(...this.collectFunctionInfos(sourceFile));
+            this.getExportedFunctionIds(sourceFile).forEach(id => roots.add(id));
+
+            const moduleCalls = new Map<string, CallInfo>();
+            this.findCallsInNode(sourceFile, moduleCalls, true);
+            moduleCalls.forEach((_, calleeId) => roots.add(calleeId));
+        }
+
+        // Library code may call the members of classes extending or implementing its types
+        for (const functionInfo of functionInfos) {
+            if (this.isPublicMember(functionInfo.node) && this.extendsExternalType(functionInfo.node.parent)) {
+                roots.add(functionInfo.id);
+            }
+        }
+
+        const reachable = new Set<string>();
+        const pending = Array.from(roots);
+        while (pending.length > 0) {
+            const functionId = pending.pop()!;
+            if (!reachable.has(functionId)) {
+                reachable.add(functionId);
+                functionCallMap.get(functionId)?.forEach((_, calleeId) => pending.push(calleeId));
+            }
+        }
+
+        return functionInfos
+            .filter(functionInfo => functionInfo.body && !reachable.has(functionInfo.id) &&
+                !ts.isGetAccessorDeclaration(functionInfo.node) && !ts.isSetAccessorDeclaration(functionInfo.node))
+            .map(functionInfo => this.createFunctionNodeFromInfo(functionInfo, path.normalize(functionInfo.node.getSourceFile().fileName)));
+    }
+
+    /**
+     * Ids of the functions a module exports, including the public members of exported
+     * classes and object literals. Functions nested in function bodies are not exported.
+     */
+    private getExportedFunctionIds(sourceFile: ts.SourceFile): string[] {
+        const moduleSymbol = this.checker!.getSymbolAtLocation(sourceFile);
+        if (!moduleSymbol) {
+            return [];
+        }
 
-        this.program = ts.createProgram(Array.from(relatedFiles), compilerOptions);
+        const exportedIds: string[] = [];
+        const visit = (node: ts.Node) => {
+            const functionInfo = this.getFunctionInfo(node, path.normalize(node.getSourceFile().fileName));
+            if (!functionInfo) {
+                ts.forEachChild(node, visit);
+            } else if (this.isPublicMember(node)) {
+                exportedIds.push(functionInfo.id);
+            }
+        };
+
+        for (const exported of this.checker!.getExportsOfModule(moduleSymbol)) {
+            for (const declaration of this.getAliasedSymbol(exported)?.declarations ?? []) {
+                if (!this.isExternalDeclaration(declaration)) {
+                    visit(declaration);
+                }
+            }
+        }
+
+        return exportedIds;
+    }
+
+    private isPublicMember(node: ts.Node): boolean {
+        const name = (node as ts.NamedDeclaration).name;
+        if (name && ts.isPrivateIdentifier(name)) {
+            return false;
+        }
+        return !(ts.canHaveModifiers(node) && ts.getModifiers(node)?.some(modifier => modifier.kind === ts.SyntaxKind.PrivateKeyword));
+    }
+
+    private extendsExternalType(node: ts.Node): boolean {
+        return ts.isClassDeclaration(node) && (node.heritageClauses ?? []).some(clause =>
+            clause.types.some(heritageType => {
+                const symbol = this.checker && this.getAliasedSymbol(this.checker.getSymbolAtLocation(heritageType.expression));
+                return (symbol?.declarations ?? []).some(declaration => this.isExternalDeclaration(declaration));
+            })
+        );
+    }
+
+    /**
+     * Builds the downstream call tree of an entry point: the entry point itself is the
+     * root and calls the handlers the framework invokes for it.
+     */
+    public async analyzeEntryPoint(entryPoint: EntryPoint, workspacePath?: string, maxDepth: number = this.settings.maxDepth): Promise<GraphData> {
+        this.processedFiles.clear();
+        this.importGraph.clear();
+
+        const relatedFiles = await this.getAllRelatedFiles(entryPoint.filePath, workspacePath, true);
+        this.createProgram(Array.from(relatedFiles), entryPoint.filePath);
+
+        const functionCallMap: CallMap = new Map();
+        this.collectAllFunctions(functionCallMap);
+
+        // Re-detect so edits since the entry point was picked are reflected
+        const current = this.detectEntryPoints().find(candidate => candidate.id === entryPoint.id) ?? entryPoint;
+        functionCallMap.set(current.id, new Map(current.targets.map(target => [target, { type: 'calls' }])));
+
+        const nodes: GraphNode[] = [];
+        const edges: GraphEdge[] = [];
+        const rootNode: GraphNode = {
+            id: current.id,
+            name: current.label,
+            type: 'function',
+            filePath: current.filePath,
+            line: current.line,
+            column: current.column,
+            isFocused: true,
+            entryPointKind: current.kind
+        };
+        nodes.push(rootNode);
+        this.addFileNode(rootNode, nodes, edges);
+        this.buildCallChain(current.id, functionCallMap, nodes, edges, new Set<string>(), maxDepth);
+
+        return { nodes, edges };
+    }
+
+    private detectEntryPoints(): EntryPoint[] {
+        const entryPoints = new Map<string, EntryPoint>();
+        const context = { checker: this.checker! };
+
+        for (const sourceFile of this.program!.getSourceFiles()) {
+            if (sourceFile.isDeclarationFile || sourceFile.fileName.includes('node_modules')) {
+                continue;
+            }
+
+            for (const detector of this.entryPointDetectors) {
+                for (const detected of detector.detect(sourceFile, context)) {
+                    const declarationFile = detected.node.getSourceFile();
+                    const filePath = path.normalize(declarationFile.fileName);
+                    const position = declarationFile.getLineAndCharacterOfPosition(detected.node.getStart());
+                    const id = `entry:${filePath}:${position.line}:${position.character}`;
+
+                    // Components rendered from several places are detected once per use
+                    if (entryPoints.has(id)) {
+                        continue;
+                    }
+
+                    entryPoints.set(id, {
+                        id,
+                        kind: detector.kind,
+                        label: detected.label,
+                        filePath,
+                        line: position.line,
+                        column: position.character,
+                        targets: Array.from(new Set(detected.handlers.flatMap(handler => this.resolveEntryPointTargets(handler))))
+                    });
+                }
+            }
+        }
+
+        return Array.from(entryPoints.values());
+    }
+
+    private resolveEntryPointTargets(handler: ts.Node): string[] {
+        const functionInfo = this.getFunctionInfo(handler, path.normalize(handler.getSourceFile().fileName));
+        if (functionInfo) {
+            return [functionInfo.id];
+        }
+
+        // Inline handlers have no node of their own: the entry point calls what they call
+        if (ts.isExpression(handler) && this.isFunctionExpression(handler)) {
+            const calls = new Map<string, CallInfo>();
+            this.findCallsInNode(handler.body, calls);
+            return Array.from(calls.keys());
+        }
+
+        const reference = this.resolveFunctionReference(handler);
+        return reference ? [reference] : [];
+    }
+
+    private addTypeDeclarationNode(
+        declaration: ts.ClassDeclaration | ts.InterfaceDeclaration | ts.EnumDeclaration,
+        nodes: GraphNode[],
+        edges: GraphEdge[]
+    ): string | undefined {
+        if (!declaration.name) {
+            return undefined;
+        }
+
+        const sourceFile = declaration.getSourceFile();
+        const filePath = path.normalize(sourceFile.fileName);
+        const type = ts.isClassDeclaration(declaration) ? 'class' : ts.isInterfaceDeclaration(declaration) ? 'interface' : 'enum';
+        const typeName = declaration.name.text;
+        const typeId = `${type}:${filePath}:${typeName}`;
+
+        if (nodes.find(n => n.id === typeId)) {
+            return typeId;
+        }
+
+        const position = sourceFile.getLineAndCharacterOfPosition(declaration.getStart());
+        const typeNode: GraphNode = {
+            id: typeId,
+            name: typeName,
+            type,
+            filePath,
+            line: position.line,
+            column: position.character,
+            isExternal: sourceFile.isDeclarationFile || undefined
+        };
+        nodes.push(typeNode);
+        this.addFileNode(typeNode, nodes, edges);
+
+        // Library types (e.g. `extends Error`) are shown but not expanded
+        if (sourceFile.isDeclarationFile || ts.isEnumDeclaration(declaration)) {
+            return typeId;
+        }
+
+        if (ts.isClassDeclaration(declaration)) {
+            for (const member of declaration.members) {
+                const memberInfo = this.getFunctionInfo(member, filePath);
+                if (memberInfo) {
+                    nodes.push(this.createFunctionNodeFromInfo(memberInfo, filePath));
+                    edges.push({ source: typeId, target: memberInfo.id, type: 'contains' });
+                }
+            }
+        }
+
+        for (const clause of declaration.heritageClauses ?? []) {
+            const edgeType = clause.token === ts.SyntaxKind.ImplementsKeyword ? 'implements' : 'extends';
+
+            for (const heritageType of clause.types) {
+                for (const baseDeclaration of this.resolveHeritageDeclarations(heritageType.expression)) {
+                    const baseId = this.addTypeDeclarationNode(baseDeclaration, nodes, edges);
+                    if (baseId && !edges.find(e => e.source === typeId && e.target === baseId && e.type === edgeType)) {
+                        edges.push({ source: typeId, target: baseId, type: edgeType });
+                    }
+                }
+            }
+        }
+
+        return typeId;
+    }
+
+    private resolveHeritageDeclarations(expression: ts.Expression): Array<ts.ClassDeclaration | ts.InterfaceDeclaration> {
+        const symbol = this.checker && this.getAliasedSymbol(this.checker.getSymbolAtLocation(expression));
+        return (symbol?.declarations ?? []).filter(
+            (declaration): declaration is ts.ClassDeclaration | ts.InterfaceDeclaration =>
+                ts.isClassDeclaration(declaration) || ts.isInterfaceDeclaration(declaration)
+        );
+    }
+
+    private getAliasedSymbol(symbol: ts.Symbol | undefined): ts.Symbol | undefined {
+        if (symbol && this.checker && (symbol.flags & ts.SymbolFlags.Alias)) {
+            return this.checker.getAliasedSymbol(symbol);
+        }
+        return symbol;
+    }
+
+    private addVariableReferences(sourceFile: ts.SourceFile, nodes: GraphNode[], edges: GraphEdge[]) {
+        if (!this.checker) {
+            return;
+        }
+
+        const addReferences = (functionId: string, body: ts.ConciseBody) => {
+            const visit = (child: ts.Node) => {
+                if (ts.isIdentifier(child)) {
+                    const declaration = this.getAliasedSymbol(this.checker!.getSymbolAtLocation(child))?.valueDeclaration;
+                    if (declaration && this.isModuleLevelVariable(declaration)) {
+                        this.addVariableReference(functionId, declaration, nodes, edges);
+                    }
+                }
+                ts.forEachChild(child, visit);
+            };
+            ts.forEachChild(body, visit);
+        };
+
+        for (const functionInfo of this.collectFunctionInfos(sourceFile)) {
+            if (functionInfo.body) {
+                addReferences(functionInfo.id, functionInfo.body);
+            }
+        }
+    }
+
+    private isModuleLevelVariable(declaration: ts.Declaration): declaration is ts.VariableDeclaration {
+        return ts.isVariableDeclaration(declaration) &&
+            ts.isIdentifier(declaration.name) &&
+            ts.isVariableStatement(declaration.parent.parent) &&
+            ts.isSourceFile(declaration.parent.parent.parent) &&
+            !declaration.getSourceFile().isDeclarationFile &&
+            !(declaration.initializer && (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer)));
+    }
+
+    private addVariableReference(functionId: string, declaration: ts.VariableDeclaration, nodes: GraphNode[], edges: GraphEdge[]) {
+        const sourceFile = declaration.getSourceFile();
+        const filePath = path.normalize(sourceFile.fileName);
+        const variableName = (declaration.name as ts.Identifier).text;
+        const variableId = `variable:${filePath}:${variableName}`;
+
+        if (!nodes.find(n => n.id === variableId)) {
+            const position = sourceFile.getLineAndCharacterOfPosition(declaration.getStart());
+            const variableNode: GraphNode = {
+                id: variableId,
+                name: variableName,
+                type: 'variable',
+                filePath,
+                line: position.line,
+                column: position.character
+            };
+            nodes.push(variableNode);
+            this.addFileNode(variableNode, nodes, edges);
+        }
+
+        // Methods may already be contained by their class node
+        if (!nodes.find(n => n.id === functionId)) {
+            const functionNode = this.createFunctionNode(functionId);
+            if (!functionNode) {
+                return;
+            }
+            nodes.push(functionNode);
+            this.addFileNode(functionNode, nodes, edges);
+        }
+
+        if (!edges.find(e => e.source === functionId && e.target === variableId)) {
+            edges.push({ source: functionId, target: variableId, type: 'references' });
+        }
+    }
+
+    private createProgram(rootNames: string[], projectFilePath: string) {
+        // Create TypeScript program with the compiler options of the project that owns the given file.
+        // Passing the previous program lets TypeScript reuse everything that did not change.
+        const project = this.configResolver.getProjectForFile(projectFilePath);
+        // The compiler refuses root files with other extensions, such as .vue files, unless told otherwise
+        const options = rootNames.some(isVueFile) ? { ...project.options, allowNonTsExtensions: true } : project.options;
+        const host = this.createCompilerHost(options);
+
+        this.program = ts.createProgram(rootNames, options, host, this.program);
         this.checker = this.program.getTypeChecker();
+        this.functionMetrics.clear();
+    }
 
-        // Analyze the active file and build call graph
-        return this.buildCallGraphFromActiveFile(activeFilePath);
+    private async getDependentFiles(targetFilePath: string, workspacePath?: string): Promise<Set<string>> {
+        const dependents = new Set<string>([targetFilePath]);
+        if (!workspacePath) {
+            return dependents;
+        }
+
+        // Invert the import edges of every workspace file
+        const importers = new Map<string, Set<string>>();
+        for (const filePath of await this.getFilesOfAllRoots(workspacePath)) {
+            const imports = await this.getImportsFromFilePath(filePath);
+            const indexEntry = this.fileIndex.get(filePath);
+
+            for (const importInfo of imports) {
+                const resolvedPath = this.resolveImportPath(importInfo.modulePath, filePath);
+                if (!resolvedPath) {
+                    continue;
+                }
+
+                indexEntry?.resolvedImports.add(resolvedPath);
+                if (!importers.has(resolvedPath)) {
+                    importers.set(resolvedPath, new Set());
+                }
+                importers.get(resolvedPath)!.add(filePath);
+            }
+        }
+
+        const queue = [targetFilePath];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            importers.get(current)?.forEach(importer => {
+                if (!dependents.has(importer)) {
+                    dependents.add(importer);
+                    queue.push(importer);
+                }
+            });
+        }
+
+        return dependents;
     }
 
-    private async getAllRelatedFiles(activeFilePath: string, workspacePath?: string): Promise<Set<string>> {
+    /**
+     * The import closure of a file. Call graphs pass `includeSubtypes` to add the files
+     * whose classes calls through the closure's interfaces and base classes dispatch to.
+     */
+    private async getAllRelatedFiles(activeFilePath: string, workspacePath?: string, includeSubtypes: boolean = false): Promise<Set<string>> {
         const relatedFiles = new Set<string>();
         const filesToProcess = new Set<string>([activeFilePath]);
         const processed = new Set<string>();
@@ -49,12 +885,7 @@ export class CodeAnalyzer {
         // Get workspace files for context if available
         let workspaceFiles: Set<string> = new Set();
         if (workspacePath) {
-            try {
-                const allFiles = await this.getTypeScriptFiles(workspacePath);
-                workspaceFiles = new Set(allFiles);
-            } catch (error) {
-                console.warn('Error getting workspace files:', error);
-            }
+            workspaceFiles = await this.getFilesOfAllRoots(workspacePath);
         }
 
         while (filesToProcess.size > 0) {
@@ -73,9 +904,13 @@ export class CodeAnalyzer {
 
             // Get imports from current file
             const imports = await this.getImportsFromFilePath(currentFile);
+            const indexEntry = this.fileIndex.get(currentFile);
 
             for (const importInfo of imports) {
                 const resolvedPath = this.resolveImportPath(importInfo.modulePath, currentFile);
+                if (resolvedPath) {
+                    indexEntry?.resolvedImports.add(resolvedPath);
+                }
 
                 if (resolvedPath && !processed.has(resolvedPath)) {
                     // Only include files that are in workspace or are direct dependencies
@@ -92,9 +927,62 @@ export class CodeAnalyzer {
             }
         }
 
+        if (workspacePath && includeSubtypes) {
+            await this.addSubtypeFiles(relatedFiles, workspaceFiles);
+        }
+
         return relatedFiles;
     }
 
+    /**
+     * Adds the workspace files declaring subclasses or implementations of the types in
+     * `relatedFiles`: calls through an interface or base class dispatch to them, though
+     * nothing in the import closure imports them (dependency injection). Repeats until
+     * no file is added, so subtypes of subtypes are found too.
+     */
+    private async addSubtypeFiles(relatedFiles: Set<string>, workspaceFiles: Set<string>): Promise<void> {
+        let added = true;
+        while (added) {
+            added = false;
+            for (const filePath of workspaceFiles) {
+                if (relatedFiles.has(filePath)) {
+                    continue;
+                }
+
+                const imports = await this.getImportsFromFilePath(filePath);
+                const indexEntry = this.fileIndex.get(filePath);
+                if (!indexEntry?.declaresSubtypes) {
+                    continue;
+                }
+
+                for (const importInfo of imports) {
+                    const resolvedPath = this.resolveImportPath(importInfo.modulePath, filePath);
+                    if (resolvedPath) {
+                        indexEntry.resolvedImports.add(resolvedPath);
+                    }
+                }
+                if (Array.from(indexEntry.resolvedImports).some(importedPath => relatedFiles.has(importedPath))) {
+                    relatedFiles.add(filePath);
+                    added = true;
+                }
+            }
+        }
+    }
+
+    private declaresSubtypes(sourceFile: ts.SourceFile): boolean {
+        let found = false;
+        const visit = (node: ts.Node) => {
+            if ((ts.isClassLike(node) || ts.isInterfaceDeclaration(node)) && node.heritageClauses?.length) {
+                found = true;
+            }
+            if (!found) {
+                ts.forEachChild(node, visit);
+            }
+        };
+        visit(sourceFile);
+        return found;
+    }
+
     private isDirectDependency(filePath: string, workspacePath?: string): boolean {
         if (!workspacePath) return true;
 
@@ -108,36 +996,196 @@ export class CodeAnalyzer {
             relativePath.length < 200; // Reasonable path length limit
     }
 
-    private async getImportsFromFilePath(filePath: string): Promise<Array<{ modulePath: string, importedNames: string[] }>> {
-        if (!fs.existsSync(filePath)) {
+    private async getFilesOfAllRoots(workspacePath: string): Promise<Set<string>> {
+        const files = new Set(await this.getWorkspaceFiles(workspacePath));
+        for (const root of this.workspaceRoots) {
+            if (root !== path.normalize(workspacePath)) {
+                (await this.getWorkspaceFiles(root)).forEach(filePath => files.add(filePath));
+            }
+        }
+        return files;
+    }
+
+    // The innermost workspace root containing the path
+    private getOwningRoot(filePath: string): string | undefined {
+        return this.workspaceRoots
+            .filter(root => {
+                const relativePath = path.relative(root, filePath);
+                return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+            })
+            .sort((a, b) => b.length - a.length)[0];
+    }
+
+    // Folders are named relative to their own root; folders of other roots are prefixed with the root's name
+    private getFolderGroup(folder: string, workspacePath?: string): string {
+        const root = this.getOwningRoot(folder) ?? workspacePath;
+        if (!root) {
+            return folder;
+        }
+
+        const relativePath = path.relative(root, folder) || '.';
+        return workspacePath && root === path.normalize(workspacePath) ? relativePath : path.join(path.basename(root), relativePath);
+    }
+
+    private async getWorkspaceFiles(workspacePath: string): Promise<Set<string>> {
+        const cached = this.workspaceFilesCache.get(workspacePath);
+        if (cached) {
+            return cached;
+        }
+
+        let workspaceFiles = new Set<string>();
+        try {
+            workspaceFiles = new Set(await this.getTypeScriptFiles(workspacePath));
+            this.workspaceFilesCache.set(workspacePath, workspaceFiles);
+        } catch (error) {
+            console.warn('Error getting workspace files:', error);
+        }
+
+        return workspaceFiles;
+    }
+
+    private async getImportsFromFilePath(filePath: string): Promise<ImportInfo[]> {
+        const version = this.getFileVersion(filePath);
+        if (!version) {
             return [];
         }
 
+        const cached = this.fileIndex.get(filePath);
+        if (cached && cached.version === version) {
+            return cached.imports;
+        }
+
+        // Changed since the last run without us being told, e.g. edited outside the editor
+        if (cached) {
+            this.invalidateFile(filePath);
+        }
+
         try {
-            const content = fs.readFileSync(filePath, 'utf-8');
-            const sourceFile = ts.createSourceFile(
-                filePath,
-                content,
-                ts.ScriptTarget.ES2020,
-                true
-            );
+            const sourceFile = this.createStandaloneSourceFile(filePath, fs.readFileSync(filePath, 'utf-8'));
 
-            return this.getImportsFromFile(sourceFile);
+            const imports = this.getImportsFromFile(sourceFile);
+            const declaresSubtypes = this.declaresSubtypes(sourceFile);
+            this.fileIndex.set(filePath, { version, imports, resolvedImports: new Set(), declaresSubtypes });
+            return imports;
         } catch (error) {
             console.warn(`Error reading file ${filePath}:`, error);
             return [];
         }
     }
 
-    private buildCallGraphFromActiveFile(activeFilePath: string): GraphData {
+    // Parses a file outside the program; single-file components contribute their script blocks
+    private createStandaloneSourceFile(filePath: string, content: string): ts.SourceFile {
+        if (isVueFile(filePath)) {
+            const script = extractVueScript(content);
+            return ts.createSourceFile(filePath, script.text, ts.ScriptTarget.ES2020, true, script.scriptKind);
+        }
+        return ts.createSourceFile(filePath, content, ts.ScriptTarget.ES2020, true);
+    }
+
+    private getFileVersion(filePath: string): string | undefined {
+        try {
+            const stats = fs.statSync(filePath);
+            return `${stats.mtimeMs}:${stats.size}`;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private createCompilerHost(options: ts.CompilerOptions): ts.CompilerHost {
+        const host = ts.createCompilerHost(options);
+        const getSourceFile = host.getSourceFile;
+
+        // Serve unchanged files from astCache so only edited files are re-parsed
+        host.getSourceFile = (fileName, languageVersionOrOptions, onError, shouldCreateNewSourceFile) => {
+            const target = typeof languageVersionOrOptions === 'object'
+                ? `${languageVersionOrOptions.languageVersion}:${languageVersionOrOptions.impliedNodeFormat}`
+                : `${languageVersionOrOptions}`;
+            const fileVersion = this.getFileVersion(fileName);
+            const version = fileVersion && `${fileVersion}:${target}`;
+            const cacheKey = path.normalize(fileName);
+
+            const cached = this.astCache.get(cacheKey);
+            if (cached && cached.version === version && !shouldCreateNewSourceFile) {
+                return cached.sourceFile;
+            }
+
+            let sourceFile: ts.SourceFile | undefined;
+            if (isVueFile(fileName)) {
+                const content = host.readFile(fileName);
+                const script = content !== undefined ? extractVueScript(content) : undefined;
+                sourceFile = script && ts.createSourceFile(fileName, script.text, languageVersionOrOptions, false, script.scriptKind);
+            } else {
+                sourceFile = getSourceFile.call(host, fileName, languageVersionOrOptions, onError, shouldCreateNewSourceFile);
+            }
+            if (sourceFile && version) {
+                this.astCache.set(cacheKey, { version, sourceFile });
+            }
+            return sourceFile;
+        };
+
+        host.resolveModuleNames = (moduleNames, containingFile) =>
+            moduleNames.map(moduleName => {
+                const resolved = this.configResolver.resolveModuleForProgram(moduleName, containingFile);
+                return (resolved && this.resolveDrillInModule(resolved)) ?? resolved;
+            });
+
+        return host;
+    }
+
+    /**
+     * Swaps the type declarations of a drill-in package for its JavaScript (`lodash/debounce.d.ts`
+     * or `@types/lodash/debounce.d.ts` becomes `lodash/debounce.js`). The module is loaded like
+     * workspace code, while the modules it imports stay external, which limits drilling to one level.
+     */
+    private resolveDrillInModule(resolved: ts.ResolvedModuleFull): ts.ResolvedModuleFull | undefined {
+        const packageName = this.getNodeModulesPackageName(resolved.resolvedFileName);
+        if (!packageName || !this.drillInPackages.has(packageName)) {
+            return undefined;
+        }
+
+        let scriptPath = resolved.resolvedFileName;
+        if (/\.d\.[mc]?ts$/.test(scriptPath)) {
+            const typesPackage = `/node_modules/@types/${packageName.startsWith('@') ? packageName.slice(1).replace('/', '__') : packageName}/`;
+            const basePath = scriptPath.replace(/\\/g, '/').replace(typesPackage, `/node_modules/${packageName}/`).replace(/\.d\.([mc]?)ts$/, '');
+            scriptPath = ['.js', '.cjs', '.mjs'].map(extension => basePath + extension).find(candidate => fs.existsSync(candidate)) ?? '';
+        }
+
+        if (!/\.[mc]?js$/.test(scriptPath)) {
+            return undefined;
+        }
+        return { resolvedFileName: path.normalize(scriptPath), extension: ts.Extension.Js, isExternalLibraryImport: false };
+    }
+
+    // `lodash` for `.../node_modules/lodash/debounce.js`, with `@types/scope__name` mapped to `@scope/name`
+    private getNodeModulesPackageName(filePath: string): string | undefined {
+        const normalizedPath = filePath.replace(/\\/g, '/');
+        const index = normalizedPath.lastIndexOf('/node_modules/');
+        if (index === -1) {
+            return undefined;
+        }
+
+        const segments = normalizedPath.slice(index + '/node_modules/'.length).split('/');
+        const packageName = segments[0].startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+        if (!packageName.startsWith('@types/')) {
+            return packageName;
+        }
+        const typedPackage = packageName.slice('@types/'.length);
+        return typedPackage.includes('__') ? '@' + typedPackage.replace('__', '/') : typedPackage;
+    }
+
+    private isDrillInFile(filePath: string): boolean {
+        const packageName = this.getNodeModulesPackageName(filePath);
+        return packageName !== undefined && this.drillInPackages.has(packageName) && !filePath.endsWith('.d.ts');
+    }
+
+    private buildCallGraphFromActiveFile(activeFilePath: string, maxDepth: number): GraphData {
         const nodes: GraphNode[] = [];
         const edges: GraphEdge[] = [];
         const visitedFunctions = new Set<string>();
-        const functionCallMap = new Map<string, Set<string>>();
+        const functionCallMap: CallMap = new Map();
 
         // First pass: collect all functions and their calls across all related files
         this.collectAllFunctions(functionCallMap);
-        console.log("functionCallMap", functionCallMap);
         // Start with the active file
         const activeSourceFile = this.program!.getSourceFile(activeFilePath);
         if (!activeSourceFile) {
@@ -167,331 +1215,673 @@ export class CodeAnalyzer {
             });
         });
 
-        console.log("activeFunctions", activeFunctions);
         // Build call graph starting from active file functions
         activeFunctions.forEach(func => {
-            this.buildCallChain(func.id, functionCallMap, nodes, edges, visitedFunctions);
+            this.buildCallChain(func.id, functionCallMap, nodes, edges, visitedFunctions, maxDepth);
         });
 
         return { nodes, edges };
     }
 
-    private collectAllFunctions(functionCallMap: Map<string, Set<string>>) {
+    private collectAllFunctions(functionCallMap: CallMap) {
+        const allSizeMetrics = new Map<string, SizeMetrics>();
+
         // dont tract node modules files
 
         for (const sourceFile of this.program!.getSourceFiles()) {
             if (sourceFile.isDeclarationFile || sourceFile.fileName.includes('node_modules')) continue;
-            this.analyzeFileForCalls(sourceFile, functionCallMap);
+
+            // Reuse the indexed calls of files that have not been invalidated
+            const indexEntry = this.fileIndex.get(path.normalize(sourceFile.fileName));
+            let fileCalls = indexEntry?.calls;
+            let sizeMetrics = indexEntry?.sizeMetrics;
+            if (!fileCalls || !sizeMetrics) {
+                fileCalls = new Map();
+                sizeMetrics = new Map();
+                this.analyzeFileForCalls(sourceFile, fileCalls, sizeMetrics);
+                if (indexEntry) {
+                    indexEntry.calls = fileCalls;
+                    indexEntry.sizeMetrics = sizeMetrics;
+                }
+            }
+
+            // Merge rather than replace: dispatch targets of a base member come from the files of its subclasses
+            fileCalls.forEach((calls, functionId) => {
+                const mergedCalls = this.getCalls(functionCallMap, functionId);
+                calls.forEach((call, calleeId) => mergedCalls.set(calleeId, call));
+            });
+            sizeMetrics.forEach((metrics, functionId) => allSizeMetrics.set(functionId, metrics));
+        }
+
+        this.computeFunctionMetrics(functionCallMap, allSizeMetrics);
+    }
+
+    // Combines the per-file metrics with fan-in and fan-out; possible dispatches are not counted
+    private computeFunctionMetrics(functionCallMap: CallMap, sizeMetrics: Map<string, SizeMetrics>) {
+        const fanIn = new Map<string, number>();
+        const fanOut = new Map<string, number>();
+        functionCallMap.forEach((calls, callerId) => {
+            calls.forEach((call, calleeId) => {
+                if (call.type !== 'dispatch') {
+                    fanOut.set(callerId, (fanOut.get(callerId) ?? 0) + 1);
+                    fanIn.set(calleeId, (fanIn.get(calleeId) ?? 0) + 1);
+                }
+            });
+        });
+
+        this.functionMetrics.clear();
+        sizeMetrics.forEach((metrics, functionId) => {
+            this.functionMetrics.set(functionId, {
+                ...metrics,
+                fanIn: fanIn.get(functionId) ?? 0,
+                fanOut: fanOut.get(functionId) ?? 0
+            });
+        });
+    }
+
+    private getCalls(callMap: CallMap, functionId: string): Map<string, CallInfo> {
+        let calls = callMap.get(functionId);
+        if (!calls) {
+            calls = new Map();
+            callMap.set(functionId, calls);
+        }
+        return calls;
+    }
+
+    private analyzeFileForCalls(sourceFile: ts.SourceFile, functionCallMap: CallMap, sizeMetrics: Map<string, SizeMetrics>) {
+        for (const functionInfo of this.collectFunctionInfos(sourceFile)) {
+            const calls = this.getCalls(functionCallMap, functionInfo.id);
+
+            // Find calls within this function
+            if (functionInfo.body) {
+                this.findCallsInNode(functionInfo.body, calls);
+                sizeMetrics.set(functionInfo.id, this.measureFunction(functionInfo));
+            }
+
+            // Calls through an interface or base class member may end up here
+            for (const overriddenId of this.findOverriddenMemberIds(functionInfo)) {
+                this.getCalls(functionCallMap, overriddenId).set(functionInfo.id, { type: 'dispatch' });
+            }
         }
     }
 
-    private analyzeFileForCalls(sourceFile: ts.SourceFile, functionCallMap: Map<string, Set<string>>) {
+    private measureFunction(functionInfo: FunctionInfo): SizeMetrics {
+        const sourceFile = functionInfo.node.getSourceFile();
         const filePath = path.normalize(sourceFile.fileName);
+        const startLine = sourceFile.getLineAndCharacterOfPosition(functionInfo.node.getStart(sourceFile)).line;
+        const endLine = sourceFile.getLineAndCharacterOfPosition(functionInfo.node.getEnd()).line;
+        const declaration = functionInfo.body?.parent;
 
+        let complexity = 1;
         const visit = (node: ts.Node) => {
-            // Handle function declarations
-            if (ts.isFunctionDeclaration(node) && node.name) {
-                const functionId = `function:${filePath}:${node.name.text}`;
-                if (!functionCallMap.has(functionId)) {
-                    functionCallMap.set(functionId, new Set());
+            // Nested functions with a node of their own are measured separately
+            if (this.getFunctionInfo(node, filePath)) {
+                return;
+            }
+            if (this.isBranch(node)) {
+                complexity++;
+            }
+            ts.forEachChild(node, visit);
+        };
+        ts.forEachChild(functionInfo.body!, visit);
+        if (this.isBranch(functionInfo.body!)) {
+            complexity++;
+        }
+
+        return {
+            complexity,
+            lines: endLine - startLine + 1,
+            parameters: declaration && ts.isFunctionLike(declaration) ? declaration.parameters.length : 0
+        };
+    }
+
+    private isBranch(node: ts.Node): boolean {
+        switch (node.kind) {
+            case ts.SyntaxKind.IfStatement:
+            case ts.SyntaxKind.ConditionalExpression:
+            case ts.SyntaxKind.ForStatement:
+            case ts.SyntaxKind.ForInStatement:
+            case ts.SyntaxKind.ForOfStatement:
+            case ts.SyntaxKind.WhileStatement:
+            case ts.SyntaxKind.DoStatement:
+            case ts.SyntaxKind.CaseClause:
+            case ts.SyntaxKind.CatchClause:
+                return true;
+            case ts.SyntaxKind.BinaryExpression:
+                return [
+                    ts.SyntaxKind.AmpersandAmpersandToken,
+                    ts.SyntaxKind.BarBarToken,
+                    ts.SyntaxKind.QuestionQuestionToken,
+                    ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+                    ts.SyntaxKind.BarBarEqualsToken,
+                    ts.SyntaxKind.QuestionQuestionEqualsToken
+                ].includes((node as ts.BinaryExpression).operatorToken.kind);
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Ids of the members a class member implements or overrides, across the whole
+     * `extends`/`implements` chain of its class. Library base types are skipped.
+     */
+    private findOverriddenMemberIds(functionInfo: FunctionInfo): string[] {
+        const classDeclaration = functionInfo.node.parent;
+        if (!ts.isClassDeclaration(classDeclaration) || ts.isConstructorDeclaration(functionInfo.node) ||
+            (ts.canHaveModifiers(functionInfo.node) && ts.getModifiers(functionInfo.node)?.some(m => m.kind === ts.SyntaxKind.StaticKeyword))) {
+            return [];
+        }
+
+        const overriddenIds: string[] = [];
+        const visited = new Set<ts.Node>();
+        const visit = (declaration: ts.ClassDeclaration | ts.InterfaceDeclaration) => {
+            for (const clause of declaration.heritageClauses ?? []) {
+                for (const heritageType of clause.types) {
+                    for (const baseDeclaration of this.resolveHeritageDeclarations(heritageType.expression)) {
+                        if (visited.has(baseDeclaration) || this.isExternalDeclaration(baseDeclaration)) {
+                            continue;
+                        }
+                        visited.add(baseDeclaration);
+
+                        const baseFilePath = path.normalize(baseDeclaration.getSourceFile().fileName);
+                        for (const member of baseDeclaration.members) {
+                            const memberInfo = this.getFunctionInfo(member, baseFilePath);
+                            if (memberInfo?.memberName === functionInfo.memberName) {
+                                overriddenIds.push(memberInfo.id);
+                            }
+                        }
+                        visit(baseDeclaration);
+                    }
                 }
+            }
+        };
+
+        visit(classDeclaration);
+        return overriddenIds;
+    }
 
-                // Find calls within this function
-                this.findCallsInNode(node, sourceFile, functionCallMap.get(functionId)!, filePath);
+    /**
+     * Collects what the code under `node` calls, renders and references. With `skipFunctions`
+     * the functions declared inside are left out, which yields the module-level calls of a file.
+     */
+    private findCallsInNode(node: ts.Node, calls: Map<string, CallInfo>, skipFunctions: boolean = false) {
+        const visit = (child: ts.Node) => {
+            if (skipFunctions && this.getFunctionInfo(child, path.normalize(child.getSourceFile().fileName))) {
+                return;
+            }
+
+            const callTarget = ts.isCallExpression(child) ? this.resolveCallTarget(child)
+                : ts.isNewExpression(child) ? this.resolveConstructorTarget(child)
+                    : null;
+            if (callTarget) {
+                const asyncKind = ts.isCallExpression(child) ? this.getAsyncCallKind(child) : undefined;
+                this.addCall(calls, callTarget, { type: 'calls', asyncKind, sites: [this.createCallSite(child, asyncKind)] });
             }
 
-            // Handle arrow functions assigned to variables
-            if (ts.isVariableDeclaration(node) && node.initializer &&
-                (ts.isArrowFunction(node.initializer) || ts.isFunctionExpression(node.initializer)) &&
-                ts.isIdentifier(node.name)) {
-                const functionId = `function:${filePath}:${node.name.text}`;
-                if (!functionCallMap.has(functionId)) {
-                    functionCallMap.set(functionId, new Set());
+            if ((ts.isJsxOpeningElement(child) || ts.isJsxSelfClosingElement(child)) && this.isComponentTag(child.tagName)) {
+                const componentTarget = this.resolveComponent(child.tagName);
+                if (componentTarget) {
+                    this.addCall(calls, componentTarget, { type: 'renders', sites: [this.createCallSite(child)] });
                 }
+            }
 
-                this.findCallsInNode(node.initializer, sourceFile, functionCallMap.get(functionId)!, filePath);
+            for (const reference of this.getFunctionReferenceExpressions(child)) {
+                // Components handed over as props (`<Route component={UserPage} />`) are rendered by the receiver
+                const componentTarget = ts.isJsxAttribute(child) ? this.resolveComponent(reference, true) : null;
+                const referenceTarget = componentTarget ?? this.resolveFunctionReference(reference);
+                if (referenceTarget) {
+                    this.addCall(calls, referenceTarget, {
+                        type: componentTarget ? 'renders' : 'references',
+                        sites: [this.createCallSite(reference)]
+                    });
+                }
             }
 
-            // Handle class methods
-            if (ts.isMethodDeclaration(node) && node.name && ts.isIdentifier(node.name)) {
-                const classDeclaration = node.parent;
-                if (ts.isClassDeclaration(classDeclaration) && classDeclaration.name) {
-                    const methodId = `method:${filePath}:${classDeclaration.name.text}:${node.name.text}`;
-                    if (!functionCallMap.has(methodId)) {
-                        functionCallMap.set(methodId, new Set());
-                    }
+            ts.forEachChild(child, visit);
+        };
+
+        // Expression bodies of arrow functions can be calls themselves
+        visit(node);
+    }
+
+    /**
+     * Records a call, keeping the strongest relationship when a function reaches the same
+     * callee several times: a direct call says more than rendering it or passing it on.
+     * Sites of the same relationship add up; one floating call site is enough to flag the edge.
+     */
+    private addCall(calls: Map<string, CallInfo>, calleeId: string, call: CallInfo) {
+        const existing = calls.get(calleeId);
+        if (!existing || CALL_TYPE_STRENGTH[call.type] > CALL_TYPE_STRENGTH[existing.type]) {
+            calls.set(calleeId, call);
+        } else if (existing.type === call.type) {
+            existing.sites = [...(existing.sites ?? []), ...(call.sites ?? [])];
+            if (call.asyncKind && existing.asyncKind !== 'floating') {
+                existing.asyncKind = call.asyncKind === 'floating' || !existing.asyncKind ? call.asyncKind : existing.asyncKind;
+            }
+        }
+    }
+
+    private createCallSite(node: ts.Node, asyncKind?: AsyncCallKind): CallSite {
+        const sourceFile = node.getSourceFile();
+        const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+        const lineText = sourceFile.text.slice(sourceFile.getLineStarts()[line]).split(/\r?\n/, 1)[0].trim();
+
+        return {
+            filePath: path.normalize(sourceFile.fileName),
+            line,
+            column: character,
+            snippet: lineText.length > 120 ? lineText.slice(0, 119) + '…' : lineText,
+            asyncKind
+        };
+    }
+
+    /**
+     * Classifies how the promise of an async call is handled, or returns undefined when
+     * the call does not return a promise or its result is stored for later.
+     */
+    private getAsyncCallKind(callExpression: ts.CallExpression): AsyncCallKind | undefined {
+        if (!this.checker || !this.isPromiseLike(this.checker.getTypeAtLocation(callExpression))) {
+            return undefined;
+        }
+
+        let node: ts.Node = callExpression;
+        while (ts.isParenthesizedExpression(node.parent) || ts.isAsExpression(node.parent) || ts.isNonNullExpression(node.parent)) {
+            node = node.parent;
+        }
+
+        const parent = node.parent;
+        if (ts.isAwaitExpression(parent)) {
+            return 'awaited';
+        }
+        if (ts.isArrowFunction(parent) && parent.body === node) {
+            // `forEach`, timers and event listeners throw the callback's promise away
+            return this.returnsVoid(parent) ? 'floating' : 'returned';
+        }
+        if (ts.isReturnStatement(parent)) {
+            return 'returned';
+        }
+        if (ts.isPropertyAccessExpression(parent) && ['then', 'catch', 'finally'].includes(parent.name.text)) {
+            return 'chained';
+        }
+        if (ts.isExpressionStatement(parent) || ts.isVoidExpression(parent)) {
+            return 'floating';
+        }
+        return undefined;
+    }
+
+    // Whether the function type the arrow function is passed as declares a void return
+    private returnsVoid(arrowFunction: ts.ArrowFunction): boolean {
+        const type = this.checker!.getContextualType(arrowFunction);
+        const signatures = (type?.isUnion() ? type.types : type ? [type] : []).flatMap(member => member.getCallSignatures());
+        return signatures.length > 0 && signatures.every(signature => (signature.getReturnType().flags & ts.TypeFlags.Void) !== 0);
+    }
+
+    private isPromiseLike(type: ts.Type): boolean {
+        return type.isUnion()
+            ? type.types.some(member => this.isPromiseLike(member))
+            : type.getProperty('then') !== undefined;
+    }
+
+    /**
+     * Expressions that hand a function to other code without calling it: call and
+     * `new` arguments (`items.map(transform)`, `setTimeout(tick)`), values assigned
+     * to properties (`button.onclick = handler`, `{ onSave: save }`, `{ save }`)
+     * and JSX attributes (`onClick={handleClick}`).
+     */
+    private getFunctionReferenceExpressions(node: ts.Node): ts.Node[] {
+        if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+            return [...(node.arguments ?? [])];
+        }
+        if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+            (ts.isPropertyAccessExpression(node.left) || ts.isElementAccessExpression(node.left))) {
+            return [node.right];
+        }
+        if (ts.isPropertyAssignment(node)) {
+            return [node.initializer];
+        }
+        if (ts.isShorthandPropertyAssignment(node)) {
+            return [node.name];
+        }
+        if (ts.isJsxAttribute(node) && node.initializer && ts.isJsxExpression(node.initializer) && node.initializer.expression) {
+            return [node.initializer.expression];
+        }
+        return [];
+    }
+
+    // Lower-case tags such as <div> are intrinsic elements
+    private isComponentTag(tagName: ts.JsxTagNameExpression): boolean {
+        const name = ts.isPropertyAccessExpression(tagName) ? tagName.name : tagName;
+        return ts.isIdentifier(name) && /^[A-Z]/.test(name.text);
+    }
+
+    /**
+     * Resolves a JSX tag or component reference to the function component, or to the
+     * render method of a class component. With `requireComponent`, plain functions
+     * (e.g. event handlers) are not accepted.
+     */
+    private resolveComponent(expression: ts.Node, requireComponent: boolean = false): string | null {
+        const nameNode = ts.isPropertyAccessExpression(expression) ? expression.name : expression;
+        if (!ts.isIdentifier(nameNode)) {
+            return null;
+        }
 
-                    // Find calls within this method
-                    this.findCallsInNode(node, sourceFile, functionCallMap.get(methodId)!, filePath);
-                }
-            }
+        const symbol = this.getAliasedSymbol(this.checker?.getSymbolAtLocation(nameNode));
+        const declaration = symbol?.valueDeclaration;
+        if (!declaration || this.isExternalDeclaration(declaration)) {
+            return null;
+        }
 
-            ts.forEachChild(node, visit);
-        };
+        const filePath = path.normalize(declaration.getSourceFile().fileName);
+        const functionInfo = ts.isClassDeclaration(declaration)
+            ? declaration.members.map(member => this.getFunctionInfo(member, filePath)).find(info => info?.memberName === 'render')
+            : this.getFunctionInfo(declaration, filePath);
 
-        visit(sourceFile);
+        return functionInfo && (functionInfo.isComponent || !requireComponent) ? functionInfo.id : null;
     }
 
-    private findCallsInNode(node: ts.Node, sourceFile: ts.SourceFile, callSet: Set<string>, currentFilePath: string) {
-        const visit = (child: ts.Node) => {
-            if (ts.isCallExpression(child)) {
-                const callTarget = this.resolveCallTarget(child, sourceFile, currentFilePath);
-                if (callTarget) {
-                    callSet.add(callTarget);
-                }
-            }
-            ts.forEachChild(child, visit);
-        };
+    private resolveFunctionReference(expression: ts.Node): string | null {
+        // `this.handle.bind(this)` still hands over `this.handle`
+        if (ts.isCallExpression(expression) && ts.isPropertyAccessExpression(expression.expression) &&
+            expression.expression.name.text === 'bind') {
+            expression = expression.expression.expression;
+        }
 
-        ts.forEachChild(node, visit);
-    }
+        const nameNode = ts.isPropertyAccessExpression(expression) ? expression.name : expression;
+        if (!ts.isIdentifier(nameNode) && !ts.isPrivateIdentifier(nameNode)) {
+            return null;
+        }
 
-    private resolveCallTarget(callExpression: ts.CallExpression, sourceFile: ts.SourceFile, currentFilePath: string): string | null {
-        if (ts.isIdentifier(callExpression.expression)) {
-            // Simple function call
-            const functionName = callExpression.expression.text;
+        // Only references that pin down a single workspace function are worth an edge
+        const candidates = this.getFunctionCandidates(nameNode);
+        return candidates.size === 1 ? candidates.values().next().value! : null;
+    }
 
-            // Try to resolve in current file first
-            let targetId = `function:${currentFilePath}:${functionName}`;
-            if (this.functionExistsInProgram(targetId)) {
-                return targetId;
-            }
+    private resolveCallTarget(callExpression: ts.CallExpression): string | null {
+        const callee = callExpression.expression;
+        const nameNode = ts.isPropertyAccessExpression(callee) ? callee.name : callee;
+        if (!ts.isIdentifier(nameNode) && !ts.isPrivateIdentifier(nameNode)) {
+            // Calls of computed expressions such as `handlers[name]()` have no name to show
+            return null;
+        }
 
-            // Try to resolve in imported files using enhanced resolution
-            const importedTarget = this.resolveImportedFunctionEnhanced(functionName, sourceFile, currentFilePath);
-            // debugger
-            if (importedTarget) {
-                return importedTarget;
-            }
+        const symbol = this.getAliasedSymbol(this.checker?.getSymbolAtLocation(nameNode));
+        const declarations = symbol?.declarations ?? [];
 
-            // If not found and it's a known function from our program, don't mark as unknown
-            const allProgramFunctions = this.findFunctionInAllFiles(functionName);
-            if (allProgramFunctions.length > 0) {
-                return allProgramFunctions[0]; // Return first match
+        if (declarations.length > 0 && declarations.every(declaration => this.isExternalDeclaration(declaration))) {
+            // Methods called on values (`items.map()`, `console.log()`) would drown the map; bare library
+            // functions and functions of imported modules (`fs.readFileSync()`, `_.debounce()`) are kept
+            if (ts.isPropertyAccessExpression(callee) && !this.isImportedModule(callee.expression)) {
+                return null;
             }
+            return this.getExternalSymbolId(symbol!.name, declarations[0]);
+        }
 
-            // Only mark as unknown if we really can't find it
-            return `function:unknown:${functionName}`;
+        const candidates = this.getFunctionCandidates(nameNode);
+        if (candidates.size === 1) {
+            return candidates.values().next().value!;
         }
 
-        if (ts.isPropertyAccessExpression(callExpression.expression)) {
-            // Method call like obj.method()
-            if (ts.isIdentifier(callExpression.expression.name)) {
-                const methodName = callExpression.expression.name.text;
+        // Never guess between same-named functions: flag the call instead
+        return candidates.size > 1 ? `function:ambiguous:${nameNode.text}` : `function:unresolved:${nameNode.text}`;
+    }
 
-                // Enhanced method resolution
-                const methodTarget = this.resolveMethodCallEnhanced(callExpression, sourceFile, currentFilePath);
-                if (methodTarget) {
-                    return methodTarget;
-                }
+    private isImportedModule(expression: ts.Expression): boolean {
+        const symbol = ts.isIdentifier(expression) ? this.checker?.getSymbolAtLocation(expression) : undefined;
+        return symbol !== undefined && (symbol.flags & ts.SymbolFlags.Alias) !== 0;
+    }
 
-                // Try to resolve the object type and method
-                const objectType = this.resolveObjectType(callExpression.expression.expression, sourceFile);
-                if (objectType) {
-                    return `method:${objectType.filePath}:${objectType.className}:${methodName}`;
-                }
+    /**
+     * Names a library function after the module declaring it: the `declare module 'fs'`
+     * block around it, the package its declaration file belongs to, or `globals` for the
+     * default library. Remembers the declaration so the node can navigate to it.
+     */
+    private getExternalSymbolId(symbolName: string, declaration: ts.Declaration): string {
+        const sourceFile = declaration.getSourceFile();
+        let packageName: string | undefined;
+        for (let node: ts.Node | undefined = declaration.parent; node && !packageName; node = node.parent) {
+            if (ts.isModuleDeclaration(node) && (node.flags & ts.NodeFlags.GlobalAugmentation)) {
+                // `declare global { ... }` inside a module declares globals
+                packageName = 'globals';
+            } else if (ts.isModuleDeclaration(node) && ts.isStringLiteral(node.name) && !node.name.text.startsWith('.')) {
+                packageName = node.name.text.replace(/^node:/, '');
             }
         }
-
-        return null;
+        if (!packageName && this.program?.isSourceFileDefaultLibrary(sourceFile)) {
+            packageName = 'globals';
+        }
+        packageName ??= this.getNodeModulesPackageName(sourceFile.fileName) ?? 'globals';
+
+        const id = `external:${packageName}:${symbolName}`;
+        if (!this.externalSymbols.has(id)) {
+            const position = sourceFile.getLineAndCharacterOfPosition(declaration.getStart(sourceFile));
+            this.externalSymbols.set(id, {
+                packageName,
+                symbolName,
+                filePath: path.normalize(sourceFile.fileName),
+                line: position.line,
+                column: position.character
+            });
+        }
+        return id;
     }
 
-    private resolveImportedFunctionEnhanced(functionName: string, sourceFile: ts.SourceFile, currentFilePath: string): string | null {
-        // Find import statements and resolve function location
-        const imports = this.getImportsFromFile(sourceFile);
-        // debugger
-        for (const importInfo of imports) {
-            if (importInfo.importedNames.includes(functionName)) {
-                const targetFile = this.resolveImportPath(importInfo.modulePath, currentFilePath);
-                if (targetFile) {
-                    // Check if function exists in target file
-                    const functionId = `function:${targetFile}:${functionName}`;
-                    if (this.functionExistsInProgram(functionId)) {
-                        return functionId;
-                    }
-
-                    // Check for arrow function or variable declaration
-                    const arrowFunctionId = this.findArrowFunctionInFile(targetFile, functionName);
-                    if (arrowFunctionId) {
-                        return arrowFunctionId;
-                    }
+    /**
+     * Ids of the workspace functions a name can refer to, following import aliases,
+     * re-exports and shorthand properties to their declarations.
+     */
+    private getFunctionCandidates(nameNode: ts.Identifier | ts.PrivateIdentifier): Set<string> {
+        const symbol = this.getAliasedSymbol(this.checker?.getSymbolAtLocation(nameNode));
+        const candidates = new Set<string>();
+        for (const declaration of symbol?.declarations ?? []) {
+            // `{ handler }` shorthand properties stand for the function they name
+            const targets = ts.isShorthandPropertyAssignment(declaration)
+                ? this.getAliasedSymbol(this.checker?.getShorthandAssignmentValueSymbol(declaration))?.declarations ?? []
+                : [declaration];
+            for (const target of targets.filter(target => !this.isExternalDeclaration(target))) {
+                const functionInfo = this.getFunctionInfo(target, path.normalize(target.getSourceFile().fileName));
+                if (functionInfo) {
+                    candidates.add(functionInfo.id);
                 }
             }
         }
-
-        return null;
+        return candidates;
     }
 
-    private resolveMethodCallEnhanced(callExpression: ts.CallExpression, sourceFile: ts.SourceFile, currentFilePath: string): string | null {
-        if (!ts.isPropertyAccessExpression(callExpression.expression) ||
-            !ts.isIdentifier(callExpression.expression.name)) {
+    /**
+     * `new X()` calls the constructor of X, or the inherited one when X declares none.
+     * Classes without any explicit constructor have nothing to link to.
+     */
+    private resolveConstructorTarget(newExpression: ts.NewExpression): string | null {
+        const declaration = this.checker?.getResolvedSignature(newExpression)?.declaration;
+        if (!declaration || !ts.isConstructorDeclaration(declaration) || this.isExternalDeclaration(declaration)) {
             return null;
         }
 
-        const methodName = callExpression.expression.name.text;
-        const objectExpression = callExpression.expression.expression;
+        return this.getFunctionInfo(declaration, path.normalize(declaration.getSourceFile().fileName))?.id ?? null;
+    }
 
-        // Try to use TypeChecker for better resolution
-        if (this.checker) {
-            try {
-                const type = this.checker.getTypeAtLocation(objectExpression);
-                const symbol = type.getSymbol();
-
-                if (symbol && symbol.declarations) {
-                    for (const declaration of symbol.declarations) {
-                        const sourceFile = declaration.getSourceFile();
-                        if (ts.isClassDeclaration(declaration) && declaration.name) {
-                            const methodId = `method:${sourceFile.fileName}:${declaration.name.text}:${methodName}`;
-                            if (this.functionExistsInProgram(methodId)) {
-                                return methodId;
-                            }
-                        }
-                    }
-                }
-            } catch (error) {
-                // TypeChecker failed, continue with fallback
+    /**
+     * Maps a declaration to the function it defines: function declarations and function-valued
+     * variables become `function:` ids; methods, constructors, accessors and function-valued
+     * properties of named classes, interfaces and object literals become `method:` ids.
+     */
+    private getFunctionInfo(node: ts.Node, filePath: string): FunctionInfo | undefined {
+        if (ts.isFunctionDeclaration(node) && node.name) {
+            const name = node.name.text;
+            return { id: `function:${filePath}:${name}`, name, memberName: name, node, body: node.body, isComponent: this.isFunctionComponent(name, node.body) };
+        }
+
+        if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+            const name = node.name.text;
+            const initializer = this.unwrapComponentWrapper(node.initializer);
+            if (this.isFunctionExpression(initializer)) {
+                return { id: `function:${filePath}:${name}`, name, memberName: name, node, body: initializer.body, isComponent: this.isFunctionComponent(name, initializer.body) };
             }
         }
 
-        return null;
-    }
+        if (!node.parent ||
+            (!ts.isClassDeclaration(node.parent) && !ts.isInterfaceDeclaration(node.parent) && !ts.isObjectLiteralExpression(node.parent))) {
+            return undefined;
+        }
 
-    private findFunctionInAllFiles(functionName: string): string[] {
-        const matches: string[] = [];
+        let memberName: string | undefined;
+        let body: ts.ConciseBody | undefined;
+        if (ts.isConstructorDeclaration(node)) {
+            memberName = 'constructor';
+            body = node.body;
+        } else if (ts.isMethodDeclaration(node)) {
+            memberName = this.getPropertyName(node.name);
+            body = node.body;
+        } else if (ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) {
+            const propertyName = this.getPropertyName(node.name);
+            memberName = propertyName && `${ts.isGetAccessorDeclaration(node) ? 'get' : 'set'} ${propertyName}`;
+            body = node.body;
+        } else if ((ts.isPropertyDeclaration(node) || ts.isPropertyAssignment(node)) && node.initializer && this.isFunctionExpression(node.initializer)) {
+            memberName = this.getPropertyName(node.name);
+            body = node.initializer.body;
+        } else if (ts.isMethodSignature(node) || (ts.isPropertySignature(node) && node.type && ts.isFunctionTypeNode(node.type))) {
+            // Interface members have no body; calls through them fan out to the implementations
+            memberName = this.getPropertyName(node.name);
+        }
 
-        for (const sourceFile of this.program!.getSourceFiles()) {
-            if (sourceFile.isDeclarationFile) continue;
+        const containerName = ts.isObjectLiteralExpression(node.parent) ? this.getObjectLiteralName(node.parent) : node.parent.name?.text;
+        if (!memberName || !containerName) {
+            return undefined;
+        }
 
-            const filePath = sourceFile.fileName;
-            const functionId = `function:${filePath}:${functionName}`;
+        return {
+            id: `method:${filePath}:${containerName}:${memberName}`,
+            name: `${containerName}.${memberName}`,
+            memberName,
+            containerName,
+            node,
+            body,
+            isComponent: memberName === 'render' && ts.isClassDeclaration(node.parent) && this.isClassComponent(node.parent)
+        };
+    }
 
-            if (this.functionExistsInFile(sourceFile, functionName)) {
-                matches.push(functionId);
+    // `memo(() => ...)` and `forwardRef(function Card() {...})` still define a component
+    private unwrapComponentWrapper(expression: ts.Expression): ts.Expression {
+        if (ts.isCallExpression(expression) && expression.arguments.length > 0) {
+            const callee = ts.isPropertyAccessExpression(expression.expression) ? expression.expression.name : expression.expression;
+            if (ts.isIdentifier(callee) && (callee.text === 'memo' || callee.text === 'forwardRef')) {
+                return expression.arguments[0];
             }
         }
-
-        return matches;
+        return expression;
     }
 
-    private findArrowFunctionInFile(filePath: string, functionName: string): string | null {
-        const sourceFile = this.program!.getSourceFile(filePath);
-        if (!sourceFile) return null;
-
-        let found: string | null = null;
-
-        const visit = (node: ts.Node) => {
-            if (ts.isVariableDeclaration(node) &&
-                ts.isIdentifier(node.name) &&
-                node.name.text === functionName &&
-                node.initializer &&
-                (ts.isArrowFunction(node.initializer) || ts.isFunctionExpression(node.initializer))) {
-                found = `function:${filePath}:${functionName}`;
-                return;
-            }
+    // Function components are capitalized and return JSX
+    private isFunctionComponent(name: string, body: ts.ConciseBody | undefined): boolean {
+        return /^[A-Z]/.test(name) && body !== undefined && this.containsJsx(body);
+    }
 
-            if (!found) {
-                ts.forEachChild(node, visit);
-            }
-        };
+    private containsJsx(node: ts.Node): boolean {
+        if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+            return true;
+        }
+        return ts.forEachChild(node, child => this.containsJsx(child) || undefined) ?? false;
+    }
 
-        visit(sourceFile);
-        return found;
+    private isClassComponent(classDeclaration: ts.ClassDeclaration): boolean {
+        return (classDeclaration.heritageClauses ?? []).some(clause =>
+            clause.token === ts.SyntaxKind.ExtendsKeyword &&
+            clause.types.some(type => /\b(Pure)?Component$/.test(type.expression.getText()))
+        );
     }
 
-    private functionExistsInProgram(functionId: string): boolean {
-        // Match: type:path:functionName
-        const firstColon = functionId.indexOf(':');
-        const lastColon = functionId.lastIndexOf(':');
+    private isFunctionExpression(expression: ts.Expression): expression is ts.ArrowFunction | ts.FunctionExpression {
+        return ts.isArrowFunction(expression) || ts.isFunctionExpression(expression);
+    }
 
-        if (firstColon === -1 || lastColon === -1 || firstColon === lastColon) {
-            return false; // invalid format
+    private getPropertyName(name: ts.PropertyName): string | undefined {
+        if (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+            // Ids are colon-separated, so names containing one cannot be represented
+            return name.text.includes(':') ? undefined : name.text;
         }
+        return undefined;
+    }
 
-        const type = functionId.substring(0, firstColon);
-        const filePath = functionId.substring(firstColon + 1, lastColon);
-        const name = functionId.substring(lastColon + 1);
-        const sourceFile = this.program!.getSourceFile(filePath);
-        if (!sourceFile) return false;
-
-        if (type === 'function') {
-            // debugger
-            const res = this.functionExistsInFile(sourceFile, name);
-            return res
-        } else if (type === 'method') {
-            const [className, methodName] = name.split('.');
-            return this.methodExistsInFile(sourceFile, className, methodName);
+    /**
+     * Names an object literal after the variable, property path or default export it is
+     * assigned to, e.g. `routes.users` for `const routes = { users: { ... } }`.
+     */
+    private getObjectLiteralName(objectLiteral: ts.ObjectLiteralExpression): string | undefined {
+        let node: ts.Node = objectLiteral;
+        while (ts.isParenthesizedExpression(node.parent) || ts.isAsExpression(node.parent) || ts.isSatisfiesExpression(node.parent)) {
+            node = node.parent;
         }
 
-        return false;
+        const parent = node.parent;
+        if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+            return parent.name.text;
+        }
+        if (ts.isExportAssignment(parent)) {
+            return 'default';
+        }
+        if (ts.isPropertyAssignment(parent) && ts.isObjectLiteralExpression(parent.parent)) {
+            const propertyName = this.getPropertyName(parent.name);
+            const parentName = this.getObjectLiteralName(parent.parent);
+            return propertyName && parentName && `${parentName}.${propertyName}`;
+        }
+        return undefined;
     }
 
-
-    private functionExistsInFile(sourceFile: ts.SourceFile, functionName: string): boolean {
-        let found = false;
+    private collectFunctionInfos(sourceFile: ts.SourceFile): FunctionInfo[] {
+        const functions: FunctionInfo[] = [];
+        const filePath = path.normalize(sourceFile.fileName);
 
         const visit = (node: ts.Node) => {
-            if (found) return; // Optimization: stop traversal early
-
-            // Named function declarations
-            if (ts.isFunctionDeclaration(node) && node.name?.text === functionName) {
-                found = true;
-                return;
-            }
-
-            // Arrow functions or function expressions assigned to variables
-            if (
-                ts.isVariableDeclaration(node) &&
-                ts.isIdentifier(node.name) &&
-                node.name.text === functionName &&
-                node.initializer &&
-                (ts.isArrowFunction(node.initializer) || ts.isFunctionExpression(node.initializer))
-            ) {
-                found = true;
-                return;
+            const functionInfo = this.getFunctionInfo(node, filePath);
+            if (functionInfo) {
+                functions.push(functionInfo);
             }
-
             ts.forEachChild(node, visit);
         };
 
         visit(sourceFile);
-        return found;
+        return functions;
     }
 
+    private isExternalDeclaration(declaration: ts.Declaration): boolean {
+        const sourceFile = declaration.getSourceFile();
+        return sourceFile.isDeclarationFile || (sourceFile.fileName.includes('node_modules') && !this.isDrillInFile(sourceFile.fileName));
+    }
 
-    private methodExistsInFile(sourceFile: ts.SourceFile, className: string, methodName: string): boolean {
-        let found = false;
+    /**
+     * Splits `function:<file>:<name>` and `method:<file>:<class>:<name>` ids. The file
+     * path is taken from the middle so drive letters containing ':' survive.
+     */
+    private parseFunctionId(functionId: string): { type: string, filePath: string, className?: string, name: string } | null {
+        const firstColon = functionId.indexOf(':');
+        const lastColon = functionId.lastIndexOf(':');
 
-        const visit = (node: ts.Node) => {
-            if (ts.isClassDeclaration(node) && node.name && node.name.text === className) {
-                for (const member of node.members) {
-                    if (ts.isMethodDeclaration(member) &&
-                        ts.isIdentifier(member.name) &&
-                        member.name.text === methodName) {
-                        found = true;
-                        return;
-                    }
-                }
-            }
+        if (firstColon === -1 || firstColon === lastColon) {
+            return null;
+        }
 
-            if (!found) {
-                ts.forEachChild(node, visit);
-            }
-        };
+        const type = functionId.substring(0, firstColon);
+        const name = functionId.substring(lastColon + 1);
 
-        visit(sourceFile);
-        return found;
-    }
+        if (type === 'method') {
+            const classColon = functionId.lastIndexOf(':', lastColon - 1);
+            if (classColon <= firstColon) {
+                return null;
+            }
 
-    private functionExists(functionId: string): boolean {
-        return this.functionExistsInProgram(functionId);
-    }
+            return {
+                type,
+                filePath: functionId.substring(firstColon + 1, classColon),
+                className: functionId.substring(classColon + 1, lastColon),
+                name
+            };
+        }
 
-    private resolveImportedFunction(functionName: string, sourceFile: ts.SourceFile): string | null {
-        return this.resolveImportedFunctionEnhanced(functionName, sourceFile, sourceFile.fileName);
+        return { type, filePath: functionId.substring(firstColon + 1, lastColon), name };
     }
 
-    private getImportsFromFile(sourceFile: ts.SourceFile): Array<{ modulePath: string, importedNames: string[] }> {
-        const imports: Array<{ modulePath: string, importedNames: string[] }> = [];
+    private getImportsFromFile(sourceFile: ts.SourceFile): ImportInfo[] {
+        const imports: ImportInfo[] = [];
 
         const visit = (node: ts.Node) => {
             if (ts.isImportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
@@ -517,7 +1907,32 @@ export class CodeAnalyzer {
                     }
                 }
 
-                imports.push({ modulePath, importedNames });
+                const namedBindings = node.importClause?.namedBindings;
+                const isTypeOnly = !!node.importClause && (node.importClause.isTypeOnly || (
+                    !node.importClause.name &&
+                    !!namedBindings && ts.isNamedImports(namedBindings) &&
+                    namedBindings.elements.length > 0 &&
+                    namedBindings.elements.every(element => element.isTypeOnly)
+                ));
+
+                imports.push({ modulePath, importedNames, isTypeOnly, ...this.getImportPosition(node.moduleSpecifier, sourceFile) });
+            }
+
+            // Re-exports such as `export * from './x'` and `export { a } from './x'`
+            if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+                const isTypeOnly = node.isTypeOnly || (
+                    !!node.exportClause && ts.isNamedExports(node.exportClause) &&
+                    node.exportClause.elements.length > 0 &&
+                    node.exportClause.elements.every(element => element.isTypeOnly)
+                );
+
+                imports.push({
+                    modulePath: node.moduleSpecifier.text,
+                    importedNames: [],
+                    isTypeOnly,
+                    isReExport: true,
+                    ...this.getImportPosition(node.moduleSpecifier, sourceFile)
+                });
             }
 
             // 🔁 Recursively visit child nodes
@@ -529,312 +1944,253 @@ export class CodeAnalyzer {
     }
 
 
-    private resolveObjectType(expression: ts.Expression, sourceFile: ts.SourceFile): { className: string, filePath: string } | null {
-        if (!this.checker) return null;
-
-        try {
-            const type = this.checker.getTypeAtLocation(expression);
-            const symbol = type.getSymbol();
-
-            if (symbol && symbol.declarations) {
-                for (const declaration of symbol.declarations) {
-                    const sourceFile = declaration.getSourceFile();
-                    if (ts.isClassDeclaration(declaration) && declaration.name) {
-                        return {
-                            className: declaration.name.text,
-                            filePath: sourceFile.fileName
-                        };
-                    }
-                }
-            }
-        } catch (error) {
-            // TypeChecker failed, return null
-        }
-
-        return null;
+    private getImportPosition(node: ts.Node, sourceFile: ts.SourceFile): { line: number, column: number } {
+        const position = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+        return { line: position.line, column: position.character };
     }
 
     private buildCallChain(
         functionId: string,
-        functionCallMap: Map<string, Set<string>>,
+        functionCallMap: CallMap,
         nodes: GraphNode[],
         edges: GraphEdge[],
         visitedFunctions: Set<string>,
+        maxDepth: number,
         depth: number = 0
     ) {
-        if (visitedFunctions.has(functionId) || depth > 15) { // Increased depth limit
+        if (visitedFunctions.has(functionId) || depth >= maxDepth) {
             return;
         }
 
         visitedFunctions.add(functionId);
-        console.log("functionId", functionId)
-        debugger
         const calls = functionCallMap.get(functionId);
-        console.log("functionCallMap", functionCallMap.get("function:d:\Beatcoder\ext-test\two.ts:two"))
-        console.log("calls", calls)
         if (!calls) return;
 
-        calls.forEach(calledFunctionId => {
-            console.log("calledFunctionId", calledFunctionId)
-            debugger
-            // Skip unknown functions that we couldn't resolve
-            if (calledFunctionId.includes('function:unknown:')) {
+        calls.forEach((call, calledFunctionId) => {
+            // Placeholders for external, unresolved and ambiguous calls have no body to follow
+            if (this.isPlaceholderFunctionId(calledFunctionId)) {
+                if (calledFunctionId.startsWith('external:') && !this.settings.includeExternals) {
+                    return;
+                }
+
                 // Still add the unknown node for completeness, but don't recurse
                 if (!nodes.find(n => n.id === calledFunctionId)) {
                     const unknownFunction = this.createUnknownFunctionNode(calledFunctionId);
-                    if (unknownFunction) {
-                        nodes.push(unknownFunction);
+                    if (!unknownFunction) {
+                        return;
+                    }
+                    nodes.push(unknownFunction);
+
+                    // Library functions are clustered under their package
+                    if (unknownFunction.isExternal) {
+                        this.addLibraryNode(unknownFunction, nodes, edges);
                     }
                 }
 
                 // Add call edge
                 if (!edges.find(e => e.source === functionId && e.target === calledFunctionId)) {
-                    edges.push({
-                        source: functionId,
-                        target: calledFunctionId,
-                        type: 'calls'
-                    });
+                    edges.push(this.createCallEdge(functionId, calledFunctionId, call));
                 }
                 return;
             }
 
-            // Add the called function node if it doesn't exist
+            // Add the called function node if it doesn't exist; without one the edge would dangle
             if (!nodes.find(n => n.id === calledFunctionId)) {
                 const calledFunction = this.createFunctionNode(calledFunctionId);
-
-                if (calledFunction) {
-                    nodes.push(calledFunction);
-
-                    // Add file node if it's from a different file
-                    const filePath = calledFunction.filePath;
-                    const fileNodeId = `file:${filePath}`;
-                    if (!nodes.find(n => n.id === fileNodeId)) {
-                        const fileNode: GraphNode = {
-                            id: fileNodeId,
-                            name: path.basename(filePath),
-                            type: 'file',
-                            filePath: filePath
-                        };
-                        nodes.push(fileNode);
-                    }
-
-                    // Connect function to its file
-                    if (!edges.find(e => e.source === fileNodeId && e.target === calledFunctionId)) {
-                        edges.push({
-                            source: fileNodeId,
-                            target: calledFunctionId,
-                            type: 'contains'
-                        });
-                    }
+                if (!calledFunction) {
+                    return;
                 }
+                nodes.push(calledFunction);
+
+                // Add file node if it's from a different file and connect the function to it
+                this.addFileNode(calledFunction, nodes, edges);
             }
 
             // Add call edge
             if (!edges.find(e => e.source === functionId && e.target === calledFunctionId)) {
-                edges.push({
-                    source: functionId,
-                    target: calledFunctionId,
-                    type: 'calls'
-                });
+                edges.push(this.createCallEdge(functionId, calledFunctionId, call));
             }
 
             // Recursively build call chain
-            this.buildCallChain(calledFunctionId, functionCallMap, nodes, edges, visitedFunctions, depth + 1);
+            this.buildCallChain(calledFunctionId, functionCallMap, nodes, edges, visitedFunctions, maxDepth, depth + 1);
+        });
+    }
+
+    private buildCallerChain(
+        functionId: string,
+        callersMap: CallMap,
+        nodes: GraphNode[],
+        edges: GraphEdge[],
+        visitedFunctions: Set<string>,
+        maxDepth: number,
+        depth: number = 0
+    ) {
+        if (visitedFunctions.has(functionId) || depth >= maxDepth) {
+            return;
+        }
+
+        visitedFunctions.add(functionId);
+
+        const callers = callersMap.get(functionId);
+        if (!callers) {
+            return;
+        }
+
+        callers.forEach((call, callerId) => {
+            if (!nodes.find(n => n.id === callerId)) {
+                const callerNode = this.createFunctionNode(callerId);
+                if (!callerNode) {
+                    return;
+                }
+
+                nodes.push(callerNode);
+                this.addFileNode(callerNode, nodes, edges);
+            }
+
+            if (!edges.find(e => e.source === callerId && e.target === functionId)) {
+                edges.push(this.createCallEdge(callerId, functionId, call));
+            }
+
+            this.buildCallerChain(callerId, callersMap, nodes, edges, visitedFunctions, maxDepth, depth + 1);
         });
     }
 
+    private createCallEdge(source: string, target: string, call: CallInfo): GraphEdge {
+        const edge: GraphEdge = { source, target, type: call.type, asyncKind: call.asyncKind };
+        if (call.sites && call.sites.length > 0) {
+            edge.callSites = call.sites;
+            edge.weight = call.sites.length;
+        }
+        return edge;
+    }
+
+    private addFileNode(containedNode: GraphNode, nodes: GraphNode[], edges: GraphEdge[]) {
+        const fileNodeId = `file:${containedNode.filePath}`;
+        if (!nodes.find(n => n.id === fileNodeId)) {
+            nodes.push({
+                id: fileNodeId,
+                name: path.basename(containedNode.filePath),
+                type: 'file',
+                filePath: containedNode.filePath
+            });
+        }
+
+        if (!edges.find(e => e.source === fileNodeId && e.target === containedNode.id)) {
+            edges.push({
+                source: fileNodeId,
+                target: containedNode.id,
+                type: 'contains'
+            });
+        }
+    }
+
+    private addLibraryNode(externalNode: GraphNode, nodes: GraphNode[], edges: GraphEdge[]) {
+        const packageName = externalNode.package ?? 'globals';
+        const libraryNodeId = `library:${packageName}`;
+        if (!nodes.find(n => n.id === libraryNodeId)) {
+            nodes.push({
+                id: libraryNodeId,
+                name: packageName,
+                type: 'library',
+                filePath: externalNode.filePath,
+                isExternal: true
+            });
+        }
+
+        if (!edges.find(e => e.source === libraryNodeId && e.target === externalNode.id)) {
+            edges.push({
+                source: libraryNodeId,
+                target: externalNode.id,
+                type: 'contains'
+            });
+        }
+    }
+
+    private isPlaceholderFunctionId(functionId: string): boolean {
+        return /^function:(unresolved|ambiguous):|^external:/.test(functionId);
+    }
+
     private createUnknownFunctionNode(functionId: string): GraphNode | null {
+        const externalSymbol = this.externalSymbols.get(functionId);
+        if (externalSymbol) {
+            const { packageName, symbolName, filePath, line, column } = externalSymbol;
+            return {
+                id: functionId,
+                name: packageName === 'globals' ? symbolName : `${packageName}.${symbolName}`,
+                type: 'function',
+                filePath,
+                line,
+                column,
+                isExternal: true,
+                package: packageName
+            };
+        }
+
         const parts = functionId.split(':');
         if (parts.length < 3) return null;
 
-        const functionName = parts[2];
+        const kind = parts[0] === 'external' ? 'external' : parts[1];
+        const functionName = parts.slice(2).join(':');
 
         return {
             id: functionId,
             name: functionName,
             type: 'function',
             filePath: 'unknown',
-            isExternal: true
+            isExternal: kind === 'external' || undefined,
+            resolution: kind === 'unresolved' || kind === 'ambiguous' ? kind : undefined
         };
     }
 
     private createFunctionNode(functionId: string): GraphNode | null {
-        const firstColon = functionId.indexOf(':');
-        const lastColon = functionId.lastIndexOf(':');
-
-        if (firstColon === -1 || lastColon === -1 || firstColon === lastColon) return null;
-
-        const type = functionId.substring(0, firstColon);
-        const filePath = functionId.substring(firstColon + 1, lastColon);
-        const name = functionId.substring(lastColon + 1);
+        const parsed = this.parseFunctionId(functionId);
+        if (!parsed) {
+            return null;
+        }
 
+        const { filePath, className, name } = parsed;
         const sourceFile = this.program!.getSourceFile(filePath);
-        let line: number | undefined;
-        let column: number | undefined;
-
-        if (sourceFile) {
-            if (type === 'function') {
-                const position = this.findFunctionPosition(sourceFile, name);
-                line = position?.line;
-                column = position?.column;
-            } else if (type === 'method') {
-                const [className, methodName] = name.split('.');
-                const position = this.findMethodPosition(sourceFile, className, methodName);
-                line = position?.line;
-                column = position?.column;
-            }
+        const functionInfo = sourceFile && this.collectFunctionInfos(sourceFile).find(info => info.id === functionId);
+        if (functionInfo) {
+            return this.createFunctionNodeFromInfo(functionInfo, filePath);
         }
 
         return {
             id: functionId,
-            name: name,
-            type: type === 'method' ? 'function' : (type as any),
-            filePath: filePath,
-            line: line,
-            column: column
-        };
-    }
-
-
-    private findFunctionPosition(sourceFile: ts.SourceFile, functionName: string): { line: number, column: number } | null {
-        let result: { line: number, column: number } | null = null;
-
-        const visit = (node: ts.Node) => {
-            // Function declarations
-            if (ts.isFunctionDeclaration(node) && node.name && node.name.text === functionName) {
-                const pos = sourceFile.getLineAndCharacterOfPosition(node.getStart());
-                result = { line: pos.line, column: pos.character };
-                return;
-            }
-
-            // Arrow functions and function expressions
-            if (ts.isVariableDeclaration(node) &&
-                ts.isIdentifier(node.name) &&
-                node.name.text === functionName &&
-                node.initializer &&
-                (ts.isArrowFunction(node.initializer) || ts.isFunctionExpression(node.initializer))) {
-                const pos = sourceFile.getLineAndCharacterOfPosition(node.getStart());
-                result = { line: pos.line, column: pos.character };
-                return;
-            }
-
-            if (!result) {
-                ts.forEachChild(node, visit);
-            }
+            name: className ? `${className}.${name}` : name,
+            type: 'function',
+            filePath: filePath
         };
-
-        visit(sourceFile);
-        return result;
     }
 
-    private findMethodPosition(sourceFile: ts.SourceFile, className: string, methodName: string): { line: number, column: number } | null {
-        let result: { line: number, column: number } | null = null;
-
-        const visit = (node: ts.Node) => {
-            if (ts.isClassDeclaration(node) && node.name && node.name.text === className) {
-                for (const member of node.members) {
-                    if (ts.isMethodDeclaration(member) &&
-                        ts.isIdentifier(member.name) &&
-                        member.name.text === methodName) {
-                        const pos = sourceFile.getLineAndCharacterOfPosition(member.getStart());
-                        result = { line: pos.line, column: pos.character };
-                        return;
-                    }
-                }
-            }
-
-            if (!result) {
-                ts.forEachChild(node, visit);
-            }
+    private createFunctionNodeFromInfo(functionInfo: FunctionInfo, filePath: string): GraphNode {
+        const position = functionInfo.node.getSourceFile().getLineAndCharacterOfPosition(functionInfo.node.getStart());
+        const metrics = this.functionMetrics.get(functionInfo.id);
+        // Functions of drill-in packages live in node_modules
+        const packageName = this.getNodeModulesPackageName(filePath);
+        return {
+            id: functionInfo.id,
+            name: functionInfo.name,
+            type: 'function',
+            filePath,
+            line: position.line,
+            column: position.character,
+            size: metrics?.lines,
+            isComponent: functionInfo.isComponent || undefined,
+            metrics,
+            isExternal: packageName !== undefined || undefined,
+            package: packageName
         };
-
-        visit(sourceFile);
-        return result;
     }
 
     private extractFunctionsFromFile(sourceFile: ts.SourceFile): GraphNode[] {
-        const functions: GraphNode[] = [];
         const filePath = path.normalize(sourceFile.fileName);
-
-        const visit = (node: ts.Node) => {
-            // Handle function declarations
-            if (ts.isFunctionDeclaration(node) && node.name) {
-                const functionNode: GraphNode = {
-                    id: `function:${filePath}:${node.name.text}`,
-                    name: node.name.text,
-                    type: 'function',
-                    filePath: filePath,
-                    line: sourceFile.getLineAndCharacterOfPosition(node.getStart()).line,
-                    column: sourceFile.getLineAndCharacterOfPosition(node.getStart()).character
-                };
-                functions.push(functionNode);
-            }
-
-            // Handle arrow functions and function expressions assigned to variables
-            if (ts.isVariableDeclaration(node) && node.initializer &&
-                (ts.isArrowFunction(node.initializer) || ts.isFunctionExpression(node.initializer)) &&
-                ts.isIdentifier(node.name)) {
-                const functionNode: GraphNode = {
-                    id: `function:${filePath}:${node.name.text}`,
-                    name: node.name.text,
-                    type: 'function',
-                    filePath: filePath,
-                    line: sourceFile.getLineAndCharacterOfPosition(node.getStart()).line,
-                    column: sourceFile.getLineAndCharacterOfPosition(node.getStart()).character
-                };
-                functions.push(functionNode);
-            }
-
-            // Handle class methods
-            if (ts.isClassDeclaration(node) && node.name) {
-                for (const member of node.members) {
-                    if (ts.isMethodDeclaration(member) && member.name && ts.isIdentifier(member.name)) {
-                        const methodNode: GraphNode = {
-                            id: `method:${filePath}:${node.name.text}:${member.name.text}`,
-                            name: `${node.name.text}.${member.name.text}`,
-                            type: 'function',
-                            filePath: filePath,
-                            line: sourceFile.getLineAndCharacterOfPosition(member.getStart()).line,
-                            column: sourceFile.getLineAndCharacterOfPosition(member.getStart()).character
-                        };
-                        functions.push(methodNode);
-                    }
-                }
-            }
-
-            ts.forEachChild(node, visit);
-        };
-
-        visit(sourceFile);
-        return functions;
+        return this.collectFunctionInfos(sourceFile).map(functionInfo => this.createFunctionNodeFromInfo(functionInfo, filePath));
     }
 
     private resolveImportPath(importPath: string, currentFile: string): string | null {
-        if (importPath.startsWith('.')) {
-            // Relative import
-            const resolved = path.resolve(path.dirname(currentFile), importPath);
-            // Try different extensions
-            const extensions = ['.ts', '.tsx', '.js', '.jsx'];
-            for (const ext of extensions) {
-                const fullPath = resolved + ext;
-                if (fs.existsSync(fullPath)) {
-                    return fullPath;
-                }
-            }
-
-            // Try index files
-            for (const ext of extensions) {
-                const indexPath = path.join(resolved, 'index' + ext);
-                if (fs.existsSync(indexPath)) {
-                    return indexPath;
-                }
-            }
-        } else {
-            // Try to resolve node_modules or absolute paths
-            // For now, we'll skip node_modules resolution to avoid external dependencies
-            // unless they're explicitly in our workspace
-        }
-        return null;
+        // Uses the owning tsconfig/jsconfig, so relative paths, `paths` aliases and project references all resolve
+        return this.configResolver.resolveSourceFile(importPath, currentFile);
     }
 
     private async getTypeScriptFiles(workspacePath: string): Promise<string[]> {
@@ -847,13 +2203,14 @@ export class CodeAnalyzer {
         const stats = fs.statSync(workspacePath);
 
         if (stats.isFile()) {
-            if (/\.(ts|tsx|js|jsx)$/.test(workspacePath) && !workspacePath.endsWith('.d.ts')) {
+            if (this.isSupportedFile(workspacePath)) {
                 return [workspacePath];
             } else {
                 throw new Error('The selected file is not a TypeScript or JavaScript file');
             }
         }
 
+        const filter = new WorkspaceFileFilter(workspacePath, this.settings);
         const walkDir = (dir: string) => {
             try {
                 const entries = fs.readdirSync(dir, { withFileTypes: true });
@@ -862,11 +2219,11 @@ export class CodeAnalyzer {
                     const fullPath = path.join(dir, entry.name);
 
                     if (entry.isDirectory()) {
-                        if (!['node_modules', '.git', 'dist', 'build', 'out', '.vscode', '.next'].includes(entry.name)) {
+                        if (!filter.isExcludedDirectory(fullPath)) {
                             walkDir(fullPath);
                         }
                     } else if (entry.isFile()) {
-                        if (/\.(ts|tsx|js|jsx)$/.test(entry.name) && !entry.name.endsWith('.d.ts')) {
+                        if (filter.isIncludedFile(fullPath)) {
                             files.push(fullPath);
                         }
                     }
@@ -881,10 +2238,9 @@ export class CodeAnalyzer {
     }
 
     // Legacy method for backward compatibility
-    public async analyzeWorkspace(workspacePath: string): Promise<GraphData> {
-        const activeEditor = vscode.window.activeTextEditor;
-        if (activeEditor) {
-            return this.analyzeActiveFile(activeEditor.document.uri.fsPath, workspacePath);
+    public async analyzeWorkspace(workspacePath: string, activeFilePath?: string): Promise<GraphData> {
+        if (activeFilePath) {
+            return this.analyzeActiveFile(activeFilePath, workspacePath);
         }
 
         // Fallback to first TypeScript file found
@@ -896,9 +2252,7 @@ export class CodeAnalyzer {
         return { nodes: [], edges: [] };
     }
 
-    public async analyzeFile(filePath: string): Promise<GraphData> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const workspacePath = workspaceFolder ? workspaceFolder.uri.fsPath : undefined;
+    public async analyzeFile(filePath: string, workspacePath?: string): Promise<GraphData> {
         return this.analyzeActiveFile(filePath, workspacePath);
     }
 
@@ -911,9 +2265,51 @@ export class CodeAnalyzer {
         return new Map(this.importGraph);
     }
 
+    /**
+     * Drops the cached analysis of a changed file. Files importing it keep their
+     * parsed imports but have their calls re-resolved on the next analysis.
+     */
+    public invalidateFile(filePath: string): void {
+        const normalizedPath = path.normalize(filePath);
+        this.astCache.delete(normalizedPath);
+        this.fileIndex.delete(normalizedPath);
+
+        // Calls can resolve through the changed file from any file importing it, directly or through
+        // others: re-exports and inferred types pass along the whole import chain
+        const pending = [normalizedPath];
+        const invalidated = new Set(pending);
+        while (pending.length > 0) {
+            const current = pending.pop()!;
+            for (const [importerPath, entry] of this.fileIndex) {
+                if (entry.resolvedImports.has(current) && !invalidated.has(importerPath)) {
+                    invalidated.add(importerPath);
+                    entry.calls = undefined;
+                    pending.push(importerPath);
+                }
+            }
+        }
+    }
+
+    /**
+     * Called when files are created or deleted: the workspace file list and module
+     * resolutions may be stale, but parsed files are still valid.
+     */
+    public invalidateWorkspaceStructure(): void {
+        this.workspaceFilesCache.clear();
+        this.configResolver.clearCache();
+
+        for (const entry of this.fileIndex.values()) {
+            entry.resolvedImports.clear();
+            entry.calls = undefined;
+        }
+    }
+
     public clearCache(): void {
         this.astCache.clear();
+        this.fileIndex.clear();
+        this.workspaceFilesCache.clear();
         this.processedFiles.clear();
         this.importGraph.clear();
+        this.configResolver.clearCache();
     }
 }
\ No newline at end of file
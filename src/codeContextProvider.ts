@@ -1,16 +1,38 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
 import * as path from 'path';
 import { CodeAnalyzer } from './codeAnalyzer';
-import { GraphData, GraphNode, GraphEdge } from './types';
+import { GraphData, GraphNode, GraphEdge, CodeContext, MapMode, EntryPoint } from './types';
+import { annotateCycles } from './cycleDetector';
+import { AnalyzerSettings, DEFAULT_ANALYZER_SETTINGS } from './analyzerSettings';
+import { exportGraph, ExportFormat, ImageExportFormat, EXPORT_FILE_EXTENSIONS } from './graphExporter';
+
+const ENTRY_POINT_KIND_LABELS: Record<string, string> = {
+    express: 'Express route',
+    nest: 'NestJS handler',
+    react: 'React component',
+    'vscode-command': 'VS Code command'
+};
 
 export class CodeContextProvider implements vscode.Disposable {
     private panel?: vscode.WebviewPanel;
     private analyzer: CodeAnalyzer;
     private currentGraphData?: GraphData;
     private currentActiveFile?: string;
+    private mode: MapMode = 'calls';
+    private callersTargetId?: string;
+    private entryPoint?: EntryPoint;
+    private focusContext?: CodeContext;
+    private deadFunctionIds = new Set<string>();
+    private selectionTimer?: NodeJS.Timeout;
+    private diagnostics = vscode.languages.createDiagnosticCollection('code-context-map');
 
     constructor(private readonly extensionUri: vscode.Uri) {
         this.analyzer = new CodeAnalyzer();
+        this.analyzer.setWorkspaceRoots(this.getWorkspaceRoots());
+        this.analyzer.setDrillInPackages(this.getDrillInPackages());
+        this.analyzer.setSettings(this.getAnalyzerSettings());
     }
 
     public async showCodeMap() {
@@ -26,7 +48,7 @@ export class CodeContextProvider implements vscode.Disposable {
 
         // Check if it's a supported file type
         const filePath = activeEditor.document.uri.fsPath;
-        if (!/\.(ts|tsx|js|jsx)$/.test(filePath) || filePath.endsWith('.d.ts')) {
+        if (!this.analyzer.isSupportedFile(filePath)) {
             vscode.window.showErrorMessage(
                 'Code Context Navigator only supports TypeScript and JavaScript files'
             );
@@ -49,11 +71,11 @@ export class CodeContextProvider implements vscode.Disposable {
             {
                 enableScripts: true,
                 retainContextWhenHidden: true,
-                localResourceRoots: [this.extensionUri]
+                localResourceRoots: [vscode.Uri.joinPath(this.extensionUri, 'media')]
             }
         );
 
-        this.panel.webview.html = this.getWebviewContent();
+        this.panel.webview.html = this.getWebviewContent(this.panel.webview);
 
         // Handle messages from the webview
         this.panel.webview.onDidReceiveMessage(
@@ -62,8 +84,20 @@ export class CodeContextProvider implements vscode.Disposable {
                     case 'navigateToNode':
                         await this.navigateToNode(message.nodeId);
                         break;
-                    case 'showReferences':
-                        await this.showReferences(message.nodeId);
+                    case 'showCallers':
+                        await this.showCallersOfNode(message.nodeId);
+                        break;
+                    case 'showCallSites':
+                        await this.showCallSites(message.source, message.target);
+                        break;
+                    case 'setMode':
+                        await this.setMode(message.mode);
+                        break;
+                    case 'exportGraph':
+                        await this.exportGraph();
+                        break;
+                    case 'imageExported':
+                        await this.saveImageExport(message.format, message.data);
                         break;
                     case 'ready':
                         await this.refreshMapForActiveFile();
@@ -78,14 +112,136 @@ export class CodeContextProvider implements vscode.Disposable {
         this.panel.onDidDispose(() => {
             this.panel = undefined;
             this.currentActiveFile = undefined;
+            this.mode = 'calls';
+            this.callersTargetId = undefined;
+            this.entryPoint = undefined;
+            this.focusContext = undefined;
         });
     }
 
-    public async refreshMapForActiveFile() {
+    public async showCallers() {
+        const activeEditor = vscode.window.activeTextEditor;
+        if (!activeEditor) {
+            vscode.window.showErrorMessage('Place the cursor inside a function to show its callers');
+            return;
+        }
+
+        const functionId = this.getFunctionIdAtCursor(activeEditor);
+        if (!functionId) {
+            vscode.window.showErrorMessage('Place the cursor inside a function to show its callers');
+            return;
+        }
+
+        this.mode = 'callers';
+        this.callersTargetId = functionId;
+
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Beside);
+            await this.refreshMapForActiveFile();
+        } else {
+            await this.showCodeMap();
+        }
+    }
+
+    public async showEntryPoint() {
+        if (!await this.pickEntryPoint()) {
+            return;
+        }
+
+        await this.showMapInMode('entry');
+    }
+
+    private async pickEntryPoint(): Promise<boolean> {
+        const workspacePath = this.getWorkspacePath(vscode.window.activeTextEditor?.document.uri.fsPath);
+        if (!workspacePath) {
+            vscode.window.showErrorMessage('Open a workspace folder to find its entry points');
+            return false;
+        }
+
+        const entryPoints = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Finding entry points...' },
+            () => this.analyzer.findEntryPoints(workspacePath)
+        );
+        if (entryPoints.length === 0) {
+            vscode.window.showInformationMessage('No Express, NestJS, React or VS Code command entry points found');
+            return false;
+        }
+
+        const items = entryPoints.map(entryPoint => ({
+            label: entryPoint.label,
+            description: ENTRY_POINT_KIND_LABELS[entryPoint.kind] ?? entryPoint.kind,
+            detail: `${vscode.workspace.asRelativePath(entryPoint.filePath)}:${entryPoint.line + 1}`,
+            entryPoint
+        }));
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Show the call tree of an entry point',
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        if (!picked) {
+            return false;
+        }
+
+        this.entryPoint = picked.entryPoint;
+        return true;
+    }
+
+    /**
+     * Searches the workspace for unreachable functions and greys them out in the map.
+     * Returns undefined when there is no workspace to search.
+     */
+    public async findDeadCode(): Promise<GraphNode[] | undefined> {
+        const workspacePath = this.getWorkspacePath(vscode.window.activeTextEditor?.document.uri.fsPath);
+        if (!workspacePath) {
+            vscode.window.showErrorMessage('Open a workspace folder to find dead code');
+            return undefined;
+        }
+
+        const deadFunctions = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Finding dead code...' },
+            () => this.analyzer.findDeadCode(workspacePath)
+        );
+
+        this.deadFunctionIds = new Set(deadFunctions.map(deadFunction => deadFunction.id));
+        this.postGraph(this.currentActiveFile);
+        return deadFunctions;
+    }
+
+    public async showTypeStructure() {
+        await this.showMapInMode('types');
+    }
+
+    public async showModuleDependencies() {
+        await this.showMapInMode('modules');
+    }
+
+    private async showMapInMode(mode: MapMode) {
+        this.mode = mode;
+
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Beside);
+            await this.refreshMapForActiveFile();
+        } else {
+            await this.showCodeMap();
+        }
+    }
+
+    // `silent` skips the notifications and the import cycle check, for refreshes that follow the cursor
+    public async refreshMapForActiveFile(silent = false) {
         if (!this.panel) {
             return;
         }
 
+        if (this.mode === 'callers' && this.callersTargetId) {
+            await this.refreshCallersMap(this.callersTargetId, silent);
+            return;
+        }
+
+        if (this.mode === 'entry' && this.entryPoint) {
+            await this.refreshEntryPointMap(this.entryPoint);
+            return;
+        }
+
         const activeEditor = vscode.window.activeTextEditor;
         if (!activeEditor) {
             vscode.window.showErrorMessage('No active file to analyze');
@@ -95,7 +251,7 @@ export class CodeContextProvider implements vscode.Disposable {
         const activeFilePath = activeEditor.document.uri.fsPath;
         
         // Check if it's a supported file type
-        if (!/\.(ts|tsx|js|jsx)$/.test(activeFilePath) || activeFilePath.endsWith('.d.ts')) {
+        if (!this.analyzer.isSupportedFile(activeFilePath)) {
             this.panel.webview.postMessage({
                 command: 'showMessage',
                 message: 'Please switch to a TypeScript or JavaScript file'
@@ -106,29 +262,47 @@ export class CodeContextProvider implements vscode.Disposable {
         this.currentActiveFile = activeFilePath;
 
         try {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            const workspacePath = workspaceFolder ? workspaceFolder.uri.fsPath : undefined;
+            const workspacePath = this.getWorkspacePath(activeFilePath);
             
-            vscode.window.showInformationMessage(
-                `Analyzing function calls from: ${path.basename(activeFilePath)}`
-            );
+            if (!silent) {
+                await this.updateImportCycleDiagnostics(activeFilePath, workspacePath);
+            }
+
+            if (this.mode === 'types') {
+                await this.refreshTypeStructureMap(activeFilePath, workspacePath);
+                return;
+            }
+
+            if (this.mode === 'modules') {
+                await this.refreshModuleMap(activeFilePath, workspacePath);
+                return;
+            }
+
+            // Following the cursor re-analyzes constantly, so skip the progress notifications there
+            const focusFunctionId = this.getFocusFunctionId(activeFilePath);
+            const notify = !silent && !focusFunctionId;
+            if (notify) {
+                vscode.window.showInformationMessage(
+                    `Analyzing function calls from: ${path.basename(activeFilePath)}`
+                );
+            }
 
-            this.currentGraphData = await this.analyzer.analyzeActiveFile(activeFilePath, workspacePath);
+            this.currentGraphData = focusFunctionId
+                ? await this.analyzer.analyzeFunction(focusFunctionId, workspacePath, this.getFollowCursorDepth())
+                : await this.analyzer.analyzeActiveFile(activeFilePath, workspacePath);
             
-            this.panel.webview.postMessage({
-                command: 'updateGraph',
-                data: this.currentGraphData,
-                activeFile: activeFilePath
-            });
+            this.postGraph(activeFilePath);
 
             console.log('Active file analysis complete:', this.currentGraphData);
             
             const functionCount = this.currentGraphData.nodes.filter(n => n.type === 'function').length;
             const callCount = this.currentGraphData.edges.filter(e => e.type === 'calls').length;
             
-            vscode.window.showInformationMessage(
-                `Found ${functionCount} functions with ${callCount} function calls`
-            );
+            if (notify) {
+                vscode.window.showInformationMessage(
+                    `Found ${functionCount} functions with ${callCount} function calls`
+                );
+            }
 
         } catch (error) {
             console.error('Error analyzing active file:', error);
@@ -136,6 +310,353 @@ export class CodeContextProvider implements vscode.Disposable {
         }
     }
 
+    private postGraph(activeFile?: string) {
+        if (!this.panel || !this.currentGraphData) {
+            return;
+        }
+
+        this.currentGraphData = annotateCycles(this.analyzer.annotatePackages(this.analyzer.limitGraph(this.currentGraphData)));
+        const isMultiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+        for (const node of this.currentGraphData.nodes) {
+            node.isDead = this.deadFunctionIds.has(node.id) || undefined;
+            if (isMultiRoot && node.filePath !== 'unknown') {
+                node.workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(node.filePath))?.name;
+            }
+        }
+        this.panel.webview.postMessage({
+            command: 'updateGraph',
+            data: this.currentGraphData,
+            activeFile: activeFile,
+            mode: this.mode
+        });
+    }
+
+    private async updateImportCycleDiagnostics(activeFilePath: string, workspacePath?: string) {
+        if (!vscode.workspace.getConfiguration('codeContextMap').get<boolean>('reportImportCycles', false)) {
+            this.diagnostics.clear();
+            return;
+        }
+
+        const cycles = await this.analyzer.findImportCycles(activeFilePath, workspacePath);
+        const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+
+        for (const cycle of cycles) {
+            const cycleDescription = cycle.files.map(file => path.basename(file)).join(' → ');
+            for (const cycleImport of cycle.imports) {
+                const position = new vscode.Position(cycleImport.line, cycleImport.column);
+                const diagnostic = new vscode.Diagnostic(
+                    new vscode.Range(position, position.translate(0, cycleImport.modulePath.length + 2)),
+                    `Import of '${cycleImport.modulePath}' is part of an import cycle: ${cycleDescription}`,
+                    vscode.DiagnosticSeverity.Warning
+                );
+                diagnostic.source = 'Code Context Map';
+
+                if (!diagnosticsByFile.has(cycleImport.filePath)) {
+                    diagnosticsByFile.set(cycleImport.filePath, []);
+                }
+                diagnosticsByFile.get(cycleImport.filePath)!.push(diagnostic);
+            }
+        }
+
+        // Import cycles are recomputed for the active file's import closure only
+        this.diagnostics.clear();
+        diagnosticsByFile.forEach((fileDiagnostics, filePath) => {
+            this.diagnostics.set(vscode.Uri.file(filePath), fileDiagnostics);
+        });
+    }
+
+    private async refreshTypeStructureMap(activeFilePath: string, workspacePath?: string) {
+        this.currentGraphData = await this.analyzer.analyzeTypeStructure(activeFilePath, workspacePath);
+
+        this.postGraph(activeFilePath);
+
+        const typeCount = this.currentGraphData.nodes.filter(n => n.type === 'class' || n.type === 'interface' || n.type === 'enum').length;
+        const heritageCount = this.currentGraphData.edges.filter(e => e.type === 'extends' || e.type === 'implements').length;
+
+        vscode.window.showInformationMessage(
+            `Found ${typeCount} types with ${heritageCount} inheritance relationships`
+        );
+    }
+
+    private async refreshModuleMap(activeFilePath: string, workspacePath?: string) {
+        this.currentGraphData = await this.analyzer.analyzeModuleDependencies(activeFilePath, workspacePath);
+
+        this.postGraph(activeFilePath);
+
+        const importCount = this.currentGraphData.edges.filter(e => e.type === 'import').length;
+        const reExportCount = this.currentGraphData.edges.filter(e => e.type === 'export').length;
+
+        vscode.window.showInformationMessage(
+            `Found ${this.currentGraphData.nodes.length} modules with ${importCount} imports and ${reExportCount} re-exports`
+        );
+    }
+
+    private async refreshCallersMap(targetFunctionId: string, silent = false) {
+        if (!this.panel) {
+            return;
+        }
+
+        try {
+            // In multi-root workspaces the callers live in the target's folder, not necessarily the active file's
+            const workspacePath = this.getWorkspacePath(this.analyzer.getFilePathForFunctionId(targetFunctionId) ?? this.currentActiveFile);
+
+            this.currentGraphData = await this.analyzer.analyzeCallers(targetFunctionId, workspacePath);
+
+            this.postGraph(this.currentActiveFile);
+
+            const target = this.currentGraphData.nodes.find(n => n.isFocused);
+            const callerCount = this.currentGraphData.nodes.filter(n => n.type === 'function' && !n.isFocused).length;
+
+            if (!silent) {
+                vscode.window.showInformationMessage(
+                    `Found ${callerCount} functions calling ${target?.name ?? 'the selected function'}`
+                );
+            }
+
+        } catch (error) {
+            console.error('Error analyzing callers:', error);
+            vscode.window.showErrorMessage('Error analyzing callers: ' + error);
+        }
+    }
+
+    private async refreshEntryPointMap(entryPoint: EntryPoint) {
+        if (!this.panel) {
+            return;
+        }
+
+        try {
+            const workspacePath = this.getWorkspacePath(entryPoint.filePath);
+
+            this.currentGraphData = await this.analyzer.analyzeEntryPoint(entryPoint, workspacePath);
+
+            this.postGraph(this.currentActiveFile);
+
+            const functionCount = this.currentGraphData.nodes.filter(n => n.type === 'function' && !n.isFocused).length;
+            vscode.window.showInformationMessage(
+                `Found ${functionCount} functions reachable from ${entryPoint.label}`
+            );
+
+        } catch (error) {
+            console.error('Error analyzing entry point:', error);
+            vscode.window.showErrorMessage('Error analyzing entry point: ' + error);
+        }
+    }
+
+    public onSelectionChanged(event: vscode.TextEditorSelectionChangeEvent) {
+        if (!this.panel || !this.isFollowCursorEnabled()) {
+            return;
+        }
+
+        // Selection events fire on every keystroke; wait for the cursor to settle
+        if (this.selectionTimer) {
+            clearTimeout(this.selectionTimer);
+        }
+        this.selectionTimer = setTimeout(() => {
+            this.selectionTimer = undefined;
+            this.focusOnCursor(event.textEditor);
+        }, 300);
+    }
+
+    public async toggleFollowCursor() {
+        const config = vscode.workspace.getConfiguration('codeContextMap');
+        const enabled = !this.isFollowCursorEnabled();
+        await config.update('followCursor', enabled, vscode.ConfigurationTarget.Global);
+
+        vscode.window.showInformationMessage(
+            enabled ? 'Code Context Map now follows the cursor' : 'Code Context Map no longer follows the cursor'
+        );
+    }
+
+    public async onConfigurationChanged(event: vscode.ConfigurationChangeEvent) {
+        if (!event.affectsConfiguration('codeContextMap') && !event.affectsConfiguration('files.exclude')) {
+            return;
+        }
+
+        this.analyzer.setDrillInPackages(this.getDrillInPackages());
+        this.analyzer.setSettings(this.getAnalyzerSettings());
+        if (!this.isFollowCursorEnabled()) {
+            this.focusContext = undefined;
+        } else if (vscode.window.activeTextEditor) {
+            this.focusContext = this.getCodeContextAtCursor(vscode.window.activeTextEditor);
+        }
+
+        await this.refreshMapForActiveFile();
+    }
+
+    public async exportGraph() {
+        if (!this.panel || !this.currentGraphData) {
+            vscode.window.showWarningMessage('Open the Code Context Map before exporting it');
+            return;
+        }
+
+        const formats: Array<vscode.QuickPickItem & { format: ExportFormat }> = [
+            { label: 'Graphviz DOT', description: '.dot', format: 'dot' },
+            { label: 'Mermaid flowchart', description: '.mmd', format: 'mermaid' },
+            { label: 'JSON', description: '.json', format: 'json' },
+            { label: 'SVG image', description: '.svg', format: 'svg' },
+            { label: 'PNG image', description: '.png', format: 'png' }
+        ];
+
+        const picked = await vscode.window.showQuickPick(formats, { placeHolder: 'Export the current graph as' });
+        if (!picked) {
+            return;
+        }
+
+        if (picked.format === 'svg' || picked.format === 'png') {
+            // Images are rendered by D3, so the webview serializes its canvas and answers with 'imageExported'
+            this.panel.webview.postMessage({ command: 'exportImage', format: picked.format });
+            return;
+        }
+
+        const content = exportGraph(this.currentGraphData, picked.format);
+        await this.saveExport(picked.format, Buffer.from(content, 'utf-8'));
+    }
+
+    private async saveImageExport(format: ImageExportFormat, data: string) {
+        const content = format === 'png' ? Buffer.from(data, 'base64') : Buffer.from(data, 'utf-8');
+        await this.saveExport(format, content);
+    }
+
+    private async saveExport(format: ExportFormat, content: Uint8Array) {
+        const extension = EXPORT_FILE_EXTENSIONS[format];
+        const baseName = this.currentActiveFile
+            ? path.basename(this.currentActiveFile, path.extname(this.currentActiveFile))
+            : 'code-context-map';
+        const workspacePath = this.getWorkspacePath(this.currentActiveFile);
+
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: workspacePath ? vscode.Uri.file(path.join(workspacePath, `${baseName}.${extension}`)) : undefined,
+            filters: { [format.toUpperCase()]: [extension] }
+        });
+        if (!uri) {
+            return;
+        }
+
+        try {
+            await vscode.workspace.fs.writeFile(uri, content);
+            vscode.window.showInformationMessage(`Exported graph to ${path.basename(uri.fsPath)}`);
+        } catch (error) {
+            vscode.window.showErrorMessage('Could not export graph: ' + error);
+        }
+    }
+
+    private async focusOnCursor(editor: vscode.TextEditor) {
+        const filePath = editor.document.uri.fsPath;
+        if (!this.analyzer.isSupportedFile(filePath)) {
+            return;
+        }
+
+        const context = this.getCodeContextAtCursor(editor);
+        const functionId = this.analyzer.getFunctionIdForContext(context);
+
+        // Keep the current map while the cursor is outside any function
+        if (!functionId || functionId === this.getFocusFunctionId(filePath)) {
+            return;
+        }
+
+        this.focusContext = context;
+        // The entry point, type and module maps don't depend on the function under the cursor
+        if (this.mode !== 'calls' && this.mode !== 'callers') {
+            return;
+        }
+        if (this.mode === 'callers') {
+            this.callersTargetId = functionId;
+        }
+
+        await this.refreshMapForActiveFile(true);
+    }
+
+    private getFocusFunctionId(activeFilePath: string): string | undefined {
+        if (!this.isFollowCursorEnabled() || !this.focusContext ||
+            this.focusContext.filePath !== path.normalize(activeFilePath)) {
+            return undefined;
+        }
+
+        return this.analyzer.getFunctionIdForContext(this.focusContext);
+    }
+
+    private isFollowCursorEnabled(): boolean {
+        return vscode.workspace.getConfiguration('codeContextMap').get<boolean>('followCursor', false);
+    }
+
+    // Watches the files with a supported extension, e.g. `**/*.{ts,tsx,vue}`
+    public getFileWatcherGlob(): string {
+        const extensions = this.getAnalyzerSettings().extensions.map(extension => extension.replace(/^\./, ''));
+        return extensions.length === 1 ? `**/*.${extensions[0]}` : `**/*.{${extensions.join(',')}}`;
+    }
+
+    private getAnalyzerSettings(): AnalyzerSettings {
+        const config = vscode.workspace.getConfiguration('codeContextMap');
+        // Like search, the analysis skips whatever files.exclude hides
+        const filesExclude = vscode.workspace.getConfiguration('files').get<Record<string, unknown>>('exclude', {});
+        return {
+            maxDepth: config.get<number>('maxDepth', DEFAULT_ANALYZER_SETTINGS.maxDepth),
+            include: config.get<string[]>('include', DEFAULT_ANALYZER_SETTINGS.include),
+            exclude: [
+                ...config.get<string[]>('exclude', DEFAULT_ANALYZER_SETTINGS.exclude),
+                ...Object.keys(filesExclude).filter(glob => filesExclude[glob] === true)
+            ],
+            useGitignore: config.get<boolean>('useGitignore', DEFAULT_ANALYZER_SETTINGS.useGitignore),
+            extensions: config.get<string[]>('extensions', DEFAULT_ANALYZER_SETTINGS.extensions),
+            maxNodes: config.get<number>('maxNodes', DEFAULT_ANALYZER_SETTINGS.maxNodes),
+            includeExternals: config.get<boolean>('includeExternals', DEFAULT_ANALYZER_SETTINGS.includeExternals)
+        };
+    }
+
+    private getDrillInPackages(): string[] {
+        return vscode.workspace.getConfiguration('codeContextMap').get<string[]>('drillIntoPackages', []);
+    }
+
+    private getFollowCursorDepth(): number {
+        return vscode.workspace.getConfiguration('codeContextMap').get<number>('followCursorDepth', 3);
+    }
+
+    private async setMode(mode: MapMode) {
+        if (mode === 'callers' && !this.callersTargetId) {
+            const activeEditor = vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0];
+            this.callersTargetId = activeEditor ? this.getFunctionIdAtCursor(activeEditor) : undefined;
+
+            if (!this.callersTargetId) {
+                vscode.window.showWarningMessage('Place the cursor inside a function, or right-click a function node, to show its callers');
+                this.panel?.webview.postMessage({ command: 'setMode', mode: this.mode });
+                return;
+            }
+        }
+
+        if (mode === 'entry' && !await this.pickEntryPoint()) {
+            this.panel?.webview.postMessage({ command: 'setMode', mode: this.mode });
+            return;
+        }
+
+        this.mode = mode;
+        await this.refreshMapForActiveFile();
+    }
+
+    private async showCallersOfNode(nodeId: string) {
+        const node = this.currentGraphData?.nodes.find(n => n.id === nodeId);
+        if (!node || node.type !== 'function' || node.filePath === 'unknown' || node.isExternal || node.entryPointKind) {
+            return;
+        }
+
+        this.mode = 'callers';
+        this.callersTargetId = nodeId;
+        await this.refreshMapForActiveFile();
+    }
+
+    private getFunctionIdAtCursor(editor: vscode.TextEditor): string | undefined {
+        return this.analyzer.getFunctionIdForContext(this.getCodeContextAtCursor(editor));
+    }
+
+    private getCodeContextAtCursor(editor: vscode.TextEditor): CodeContext {
+        const position = editor.selection.active;
+        return this.analyzer.getCodeContextAtPosition(
+            editor.document.uri.fsPath,
+            position.line,
+            position.character,
+            editor.document.getText()
+        );
+    }
+
     // Legacy method for backward compatibility
     public async refreshMap() {
         await this.refreshMapForActiveFile();
@@ -148,10 +669,10 @@ export class CodeContextProvider implements vscode.Disposable {
 
         const filePath = editor.document.uri.fsPath;
         
-        // Only refresh if it's a different supported file
-        if (this.currentActiveFile !== filePath && 
-            /\.(ts|tsx|js|jsx)$/.test(filePath) && 
-            !filePath.endsWith('.d.ts')) {
+        // Only refresh if it's a different supported file; the callers map stays on its target
+        if (this.mode !== 'callers' &&
+            this.currentActiveFile !== filePath && 
+            this.analyzer.isSupportedFile(filePath)) {
             
             await this.refreshMapForActiveFile();
         }
@@ -164,12 +685,15 @@ export class CodeContextProvider implements vscode.Disposable {
     }
 
     public async onFileChanged(uri: vscode.Uri) {
+        const changedFilePath = uri.fsPath;
+
+        // Keep the analyzer cache in sync even while the map is closed
+        this.analyzer.invalidateFile(changedFilePath);
+
         if (!this.panel || !this.currentGraphData) {
             return;
         }
 
-        const changedFilePath = uri.fsPath;
-
         // If the changed file is the active file or affects the current graph, refresh
         if (this.currentActiveFile === changedFilePath || 
             this.currentGraphData.nodes.some(node => node.filePath === changedFilePath)) {
@@ -178,19 +702,55 @@ export class CodeContextProvider implements vscode.Disposable {
         }
     }
 
+    public async onFileCreated(uri: vscode.Uri) {
+        // A new file can change how existing imports resolve
+        this.analyzer.invalidateWorkspaceStructure();
+        await this.onFileChanged(uri);
+    }
+
     public onFileDeleted(uri: vscode.Uri) {
+        const deletedFilePath = uri.fsPath;
+
+        this.analyzer.invalidateFile(deletedFilePath);
+        this.analyzer.invalidateWorkspaceStructure();
+
         if (!this.panel || !this.currentGraphData) {
             return;
         }
 
-        const deletedFilePath = uri.fsPath;
-
         // If the deleted file was part of the current graph, refresh
         if (this.currentGraphData.nodes.some(node => node.filePath === deletedFilePath)) {
             this.refreshMapForActiveFile();
         }
     }
 
+    public async onWorkspaceFoldersChanged() {
+        // Files of added or removed roots change both the file lists and import resolution
+        this.analyzer.setWorkspaceRoots(this.getWorkspaceRoots());
+        this.analyzer.invalidateWorkspaceStructure();
+        if (this.panel) {
+            await this.refreshMapForActiveFile();
+        }
+    }
+
+    private getWorkspaceRoots(): string[] {
+        return (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+    }
+
+    // The workspace folder owning the file, falling back to the first one for files outside the workspace
+    private getWorkspacePath(filePath?: string): string | undefined {
+        const folder = (filePath && vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))) || vscode.workspace.workspaceFolders?.[0];
+        return folder?.uri.fsPath;
+    }
+
+    public async onProjectConfigChanged() {
+        // tsconfig/jsconfig changes can affect compiler options and every module resolution
+        this.analyzer.clearCache();
+        if (this.panel) {
+            await this.refreshMapForActiveFile();
+        }
+    }
+
     private async navigateToNode(nodeId: string) {
         if (!this.currentGraphData) {
             return;
@@ -198,7 +758,11 @@ export class CodeContextProvider implements vscode.Disposable {
 
         const node = this.currentGraphData.nodes.find(n => n.id === nodeId);
         if (!node || node.filePath === 'unknown') {
-            if (node?.filePath === 'unknown') {
+            if (node?.resolution === 'ambiguous') {
+                vscode.window.showWarningMessage(`Call to "${node.name}" matches several declarations`);
+            } else if (node?.resolution === 'unresolved') {
+                vscode.window.showWarningMessage(`Call to "${node.name}" could not be resolved to a declaration`);
+            } else if (node?.filePath === 'unknown') {
                 vscode.window.showWarningMessage(
                     `Function "${node.name}" might be from an external library or not found in the workspace`
                 );
@@ -206,467 +770,70 @@ export class CodeContextProvider implements vscode.Disposable {
             return;
         }
 
-        try {
-            const document = await vscode.workspace.openTextDocument(node.filePath);
-            const editor = await vscode.window.showTextDocument(document);
-            
-            if (node.line !== undefined) {
-                const position = new vscode.Position(node.line, node.column || 0);
-                editor.selection = new vscode.Selection(position, position);
-                editor.revealRange(new vscode.Range(position, position));
-            }
-        } catch (error) {
-            vscode.window.showErrorMessage('Could not open file: ' + error);
-        }
+        await this.openLocation(node.filePath, node.line, node.column);
     }
 
-    private async showReferences(nodeId: string) {
-        if (!this.currentGraphData) {
+    private async showCallSites(sourceId: string, targetId: string) {
+        const edge = this.currentGraphData?.edges.find(e => e.source === sourceId && e.target === targetId);
+        if (!edge?.callSites || edge.callSites.length === 0) {
             return;
         }
 
-        const node = this.currentGraphData.nodes.find(n => n.id === nodeId);
-        if (!node || node.filePath === 'unknown') {
-            return;
+        const nodeName = (id: string) => this.currentGraphData?.nodes.find(n => n.id === id)?.name ?? id;
+        const items = edge.callSites.map(site => ({
+            label: `${vscode.workspace.asRelativePath(site.filePath)}:${site.line + 1}:${site.column + 1}`,
+            description: site.asyncKind,
+            detail: site.snippet,
+            site
+        }));
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: `${items.length} call site${items.length === 1 ? '' : 's'} of ${nodeName(targetId)} in ${nodeName(sourceId)}`,
+            matchOnDetail: true
+        });
+        if (picked) {
+            await this.openLocation(picked.site.filePath, picked.site.line, picked.site.column);
         }
+    }
 
+    private async openLocation(filePath: string, line?: number, column?: number) {
         try {
-            const document = await vscode.workspace.openTextDocument(node.filePath);
-            const position = new vscode.Position(node.line || 0, node.column || 0);
-            
-            await vscode.commands.executeCommand('editor.action.goToReferences', 
-                document.uri, position);
-        } catch (error) {
-            vscode.window.showErrorMessage('Could not show references: ' + error);
-        }
-    }
-
-    private getWebviewContent(): string {
-        return `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Code Context Map</title>
-    <script src="https://cdnjs.cloudflare.com/ajax/libs/d3/7.8.5/d3.min.js"></script>
-    <style>
-        body {
-            margin: 0;
-            padding: 0;
-            background-color: var(--vscode-editor-background);
-            color: var(--vscode-editor-foreground);
-            font-family: var(--vscode-font-family);
-            overflow: hidden;
-        }
-        
-        #graph-container {
-            width: 100vw;
-            height: 100vh;
-            position: relative;
-        }
-        
-        .node {
-            cursor: pointer;
-            stroke-width: 2;
-        }
-        
-        .node.file {
-            fill: var(--vscode-charts-blue);
-            stroke: var(--vscode-charts-blue);
-        }
-        
-        .node.function {
-            fill: var(--vscode-charts-green);
-            stroke: var(--vscode-charts-green);
-        }
-        
-        .node.class {
-            fill: var(--vscode-charts-orange);
-            stroke: var(--vscode-charts-orange);
-        }
-        
-        .node.variable {
-            fill: var(--vscode-charts-purple);
-            stroke: var(--vscode-charts-purple);
-        }
-        
-        .node.highlighted {
-            stroke: var(--vscode-charts-red);
-            stroke-width: 3;
-        }
-        
-        .link {
-            stroke: var(--vscode-charts-foreground);
-            stroke-opacity: 0.6;
-            stroke-width: 1;
-        }
-        
-        .node-label {
-            font-size: 10px;
-            fill: var(--vscode-editor-foreground);
-            text-anchor: middle;
-            pointer-events: none;
-        }
-        
-        .tooltip {
-            position: absolute;
-            padding: 8px;
-            background: var(--vscode-hover-background);
-            border: 1px solid var(--vscode-hover-border);
-            border-radius: 4px;
-            font-size: 12px;
-            pointer-events: none;
-            opacity: 0;
-            transition: opacity 0.2s;
-            z-index: 1000;
-        }
-        
-        .controls {
-            position: absolute;
-            top: 10px;
-            left: 10px;
-            z-index: 100;
-        }
-        
-        .control-button {
-            background: var(--vscode-button-background);
-            color: var(--vscode-button-foreground);
-            border: none;
-            padding: 8px 12px;
-            margin-right: 8px;
-            border-radius: 4px;
-            cursor: pointer;
-            font-size: 12px;
-        }
-        
-        .control-button:hover {
-            background: var(--vscode-button-hoverBackground);
-        }
-    </style>
-</head>
-<body>
-    <div id="graph-container">
-        <div class="controls">
-            <button class="control-button" onclick="resetZoom()">Reset Zoom</button>
-            <button class="control-button" onclick="toggleLabels()">Toggle Labels</button>
-        </div>
-        <svg id="graph"></svg>
-        <div class="tooltip" id="tooltip"></div>
-    </div>
-
-    <script>
-        const vscode = acquireVsCodeApi();
-        
-        let svg, simulation, nodes, links, nodeElements, linkElements, labelElements;
-        let graphData = { nodes: [], edges: [] };
-        let showLabels = true;
-        
-        // Initialize the graph
-        function initGraph() {
-            const container = d3.select('#graph-container');
-            const rect = container.node().getBoundingClientRect();
-            
-            svg = d3.select('#graph')
-                .attr('width', rect.width)
-                .attr('height', rect.height);
-            
-            // Add zoom behavior
-            const zoom = d3.zoom()
-                .scaleExtent([0.1, 10])
-                .on('zoom', (event) => {
-                    svg.select('.graph-group').attr('transform', event.transform);
-                });
-            
-            svg.call(zoom);
-            
-            // Create main group for graph elements
-            svg.append('g').attr('class', 'graph-group');
-            
-            // Initialize simulation
-            simulation = d3.forceSimulation()
-                .force('link', d3.forceLink().id(d => d.id).distance(100))
-                .force('charge', d3.forceManyBody().strength(-300))
-                .force('center', d3.forceCenter(rect.width / 2, rect.height / 2))
-                .force('collision', d3.forceCollide().radius(30));
-        }
-        
-        function updateGraph(data) {
-            console.log('Updating graph with data:', data);
-            
-            // Validate input data
-            if (!data || !data.nodes || !data.edges) {
-                console.error('Invalid graph data:', data);
-                return;
-            }
-            
-            graphData = data;
-            
-            // Process nodes - create a proper node object with required properties
-            nodes = data.nodes.map((node, index) => {
-                if (!node || !node.id) {
-                    console.error('Invalid node at index', index, ':', node);
-                    return null;
-                }
-                
-                return {
-                    ...node,
-                    // Ensure we have all required properties for D3 simulation
-                    x: node.x || Math.random() * 800,
-                    y: node.y || Math.random() * 600,
-                    vx: 0, // Initialize velocity
-                    vy: 0,
-                    fx: null, // Fixed positions
-                    fy: null
-                };
-            }).filter(node => node !== null);
-            
-            console.log('Valid nodes after processing:', nodes.length);
-            console.log('Node IDs:', nodes.map(n => n.id));
-            
-            // Create a map for quick node lookup
-            const nodeMap = new Map(nodes.map(node => [node.id, node]));
-            
-            // Process links - ensure source and target reference actual node objects
-            links = data.edges.map((edge, index) => {
-                if (!edge || !edge.source || !edge.target) {
-                    console.error('Invalid edge at index', index, ':', edge);
-                    return null;
-                }
-                
-                const sourceNode = nodeMap.get(edge.source);
-                const targetNode = nodeMap.get(edge.target);
-                
-                if (!sourceNode) {
-                    console.warn('Missing source node for edge:', edge.source, 'Available nodes:', Array.from(nodeMap.keys()));
-                    return null;
-                }
-                
-                if (!targetNode) {
-                    console.warn('Missing target node for edge:', edge.target, 'Available nodes:', Array.from(nodeMap.keys()));
-                    return null;
-                }
-                
-                return {
-                    source: sourceNode.id, // Use ID string initially, D3 will convert to object
-                    target: targetNode.id, // Use ID string initially, D3 will convert to object
-                    type: edge.type,
-                    // Store original IDs for reference
-                    sourceId: edge.source,
-                    targetId: edge.target
-                };
-            }).filter(link => link !== null);
-            
-            console.log('Valid links after processing:', links.length);
-            console.log('Links:', links.map(l => \`\${l.source} -> \${l.target}\`));
-            
-            // Stop any existing simulation
-            if (simulation) {
-                simulation.stop();
-            }
-            
-            // Update the visualization
-            updateVisualization();
-        }
-        
-        function updateVisualization() {
-            const graphGroup = svg.select('.graph-group');
-            
-            // Clear existing elements to prevent duplication
-            graphGroup.selectAll('*').remove();
-            
-            // Recreate simulation with current data
-            simulation = d3.forceSimulation(nodes)
-                .force('link', d3.forceLink(links)
-                    .id(d => d.id)
-                    .distance(100)
-                )
-                .force('charge', d3.forceManyBody().strength(-300))
-                .force('center', d3.forceCenter(svg.attr('width') / 2, svg.attr('height') / 2))
-                .force('collision', d3.forceCollide().radius(30));
-            
-            // Create links
-            linkElements = graphGroup.selectAll('.link')
-                .data(links)
-                .enter()
-                .append('line')
-                .attr('class', 'link');
-            
-            // Create node groups
-            const nodeGroups = graphGroup.selectAll('.node-group')
-                .data(nodes)
-                .enter()
-                .append('g')
-                .attr('class', 'node-group')
-                .call(d3.drag()
-                    .on('start', dragstarted)
-                    .on('drag', dragged)
-                    .on('end', dragended));
-            
-            // Add shapes based on node type
-            nodeGroups.each(function(d) {
-                const group = d3.select(this);
-                
-                if (d.type === 'file') {
-                    group.append('rect')
-                        .attr('width', 20)
-                        .attr('height', 15)
-                        .attr('x', -10)
-                        .attr('y', -7.5)
-                        .attr('class', \`node \${d.type}\`);
-                } else if (d.type === 'class') {
-                    group.append('polygon')
-                        .attr('points', '0,-12 12,0 0,12 -12,0')
-                        .attr('class', \`node \${d.type}\`);
-                } else {
-                    group.append('circle')
-                        .attr('r', 8)
-                        .attr('class', \`node \${d.type}\`);
-                }
-            });
-            
-            nodeElements = nodeGroups;
-            
-            // Add event handlers to shapes
-            nodeElements.selectAll('rect, circle, polygon')
-                .on('click', function(event, d) {
-                    vscode.postMessage({
-                        command: 'navigateToNode',
-                        nodeId: d.id
-                    });
-                })
-                .on('contextmenu', function(event, d) {
-                    event.preventDefault();
-                    vscode.postMessage({
-                        command: 'showReferences',
-                        nodeId: d.id
-                    });
-                })
-                .on('mouseover', function(event, d) {
-                    showTooltip(event, d);
-                })
-                .on('mouseout', function() {
-                    hideTooltip();
-                });
-            
-            // Create labels
-            labelElements = graphGroup.selectAll('.node-label')
-                .data(nodes)
-                .enter()
-                .append('text')
-                .attr('class', 'node-label')
-                .text(d => d.name)
-                .style('display', showLabels ? 'block' : 'none');
-            
-            // Set up tick handler
-            simulation.on('tick', () => {
-                linkElements
-                    .attr('x1', d => d.source.x)
-                    .attr('y1', d => d.source.y)
-                    .attr('x2', d => d.target.x)
-                    .attr('y2', d => d.target.y);
-                
-                nodeElements
-                    .attr('transform', d => \`translate(\${d.x},\${d.y})\`);
-                
-                labelElements
-                    .attr('x', d => d.x)
-                    .attr('y', d => d.y + 20);
-            });
+            const document = await vscode.workspace.openTextDocument(filePath);
+            const editor = await vscode.window.showTextDocument(document);
             
-            console.log('Visualization updated successfully');
-        }
-        
-        // Drag functions
-        function dragstarted(event, d) {
-            if (!event.active) simulation.alphaTarget(0.3).restart();
-            d.fx = d.x;
-            d.fy = d.y;
-        }
-        
-        function dragged(event, d) {
-            d.fx = event.x;
-            d.fy = event.y;
-        }
-        
-        function dragended(event, d) {
-            if (!event.active) simulation.alphaTarget(0);
-            d.fx = null;
-            d.fy = null;
-        }
-        
-        function showTooltip(event, d) {
-            const tooltip = d3.select('#tooltip');
-            tooltip.html(\`
-                <strong>\${d.name}</strong><br/>
-                Type: \${d.type}<br/>
-                File: \${d.filePath.split('/').pop() || d.filePath.split('\\\\').pop()}<br/>
-                \${d.line !== undefined ? \`Line: \${d.line + 1}\` : ''}
-            \`)
-            .style('left', (event.pageX + 10) + 'px')
-            .style('top', (event.pageY - 10) + 'px')
-            .style('opacity', 1);
-        }
-        
-        function hideTooltip() {
-            d3.select('#tooltip').style('opacity', 0);
-        }
-        
-        function resetZoom() {
-            const rect = d3.select('#graph-container').node().getBoundingClientRect();
-            svg.transition().duration(750).call(
-                d3.zoom().transform,
-                d3.zoomIdentity.translate(rect.width / 2, rect.height / 2).scale(1)
-            );
-        }
-        
-        function toggleLabels() {
-            showLabels = !showLabels;
-            if (labelElements) {
-                labelElements.style('display', showLabels ? 'block' : 'none');
-            }
-        }
-        
-        function highlightFile(filePath) {
-            if (nodeElements) {
-                nodeElements.selectAll('rect, circle, polygon')
-                    .classed('highlighted', d => d.filePath === filePath);
+            if (line !== undefined) {
+                const position = new vscode.Position(line, column || 0);
+                editor.selection = new vscode.Selection(position, position);
+                editor.revealRange(new vscode.Range(position, position));
             }
+        } catch (error) {
+            vscode.window.showErrorMessage('Could not open file: ' + error);
         }
-        
-        // Message handler
-        window.addEventListener('message', event => {
-            const message = event.data;
-            switch (message.command) {
-                case 'updateGraph':
-                    updateGraph(message.data);
-                    break;
-                case 'highlightFile':
-                    highlightFile(message.filePath);
-                    break;
-            }
-        });
-        
-        // Initialize when DOM is ready
-        document.addEventListener('DOMContentLoaded', () => {
-            initGraph();
-            vscode.postMessage({ command: 'ready' });
-        });
-        
-        // Handle window resize
-        window.addEventListener('resize', () => {
-            const container = d3.select('#graph-container');
-            const rect = container.node().getBoundingClientRect();
-            svg.attr('width', rect.width).attr('height', rect.height);
-            simulation.force('center', d3.forceCenter(rect.width / 2, rect.height / 2));
-            simulation.alpha(0.3).restart();
-        });
-    </script>
-</body>
-</html>`;
+    }
+
+    private getWebviewContent(webview: vscode.Webview): string {
+        const mediaUri = (fileName: string) => webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', fileName));
+        const replacements: Record<string, string> = {
+            cspSource: webview.cspSource,
+            nonce: getNonce(),
+            styleUri: mediaUri('map.css').toString(),
+            d3Uri: mediaUri('d3.v7.min.js').toString(),
+            scriptUri: mediaUri('map.js').toString()
+        };
+
+        const template = fs.readFileSync(vscode.Uri.joinPath(this.extensionUri, 'media', 'map.html').fsPath, 'utf8');
+        return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => replacements[key] ?? match);
     }
 
     dispose() {
+        if (this.selectionTimer) {
+            clearTimeout(this.selectionTimer);
+        }
+        this.diagnostics.dispose();
         this.panel?.dispose();
     }
-}
\ No newline at end of file
+}
+
+function getNonce(): string {
+    return crypto.randomBytes(16).toString('base64');
+}
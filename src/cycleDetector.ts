@@ -0,0 +1,125 @@
+import { GraphData, GraphEdge, GraphCycle } from './types';
+
+/**
+ * Tarjan's strongly connected components, iterative so deep call chains
+ * cannot overflow the stack. Components are returned in discovery order.
+ */
+export function findStronglyConnectedComponents(nodeIds: string[], successors: Map<string, string[]>): string[][] {
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let nextIndex = 0;
+
+    for (const start of nodeIds) {
+        if (indices.has(start)) {
+            continue;
+        }
+
+        const work: Array<{ nodeId: string, childIndex: number }> = [{ nodeId: start, childIndex: 0 }];
+        indices.set(start, nextIndex);
+        lowLinks.set(start, nextIndex);
+        nextIndex++;
+        stack.push(start);
+        onStack.add(start);
+
+        while (work.length > 0) {
+            const frame = work[work.length - 1];
+            const children = successors.get(frame.nodeId) ?? [];
+
+            if (frame.childIndex < children.length) {
+                const child = children[frame.childIndex++];
+                if (!indices.has(child)) {
+                    indices.set(child, nextIndex);
+                    lowLinks.set(child, nextIndex);
+                    nextIndex++;
+                    stack.push(child);
+                    onStack.add(child);
+                    work.push({ nodeId: child, childIndex: 0 });
+                } else if (onStack.has(child)) {
+                    lowLinks.set(frame.nodeId, Math.min(lowLinks.get(frame.nodeId)!, indices.get(child)!));
+                }
+                continue;
+            }
+
+            work.pop();
+            if (work.length > 0) {
+                const parent = work[work.length - 1].nodeId;
+                lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.nodeId)!));
+            }
+
+            if (lowLinks.get(frame.nodeId) === indices.get(frame.nodeId)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== frame.nodeId);
+                components.push(component.reverse());
+            }
+        }
+    }
+
+    return components;
+}
+
+/**
+ * Finds the cycles formed by the given edges: components with more than one
+ * node, plus single nodes with an edge to themselves (direct recursion).
+ */
+export function findCycles(edges: GraphEdge[]): string[][] {
+    const successors = new Map<string, string[]>();
+    const selfLoops = new Set<string>();
+    const nodeIds: string[] = [];
+
+    for (const edge of edges) {
+        for (const nodeId of [edge.source, edge.target]) {
+            if (!successors.has(nodeId)) {
+                successors.set(nodeId, []);
+                nodeIds.push(nodeId);
+            }
+        }
+        successors.get(edge.source)!.push(edge.target);
+        if (edge.source === edge.target) {
+            selfLoops.add(edge.source);
+        }
+    }
+
+    return findStronglyConnectedComponents(nodeIds, successors)
+        .filter(component => component.length > 1 || selfLoops.has(component[0]));
+}
+
+/**
+ * Detects call cycles (over `calls` edges) and import cycles (over value
+ * `import`/`export` edges; type-only imports are erased at runtime) and flags
+ * the participating nodes and edges. Mutates and returns the graph.
+ */
+export function annotateCycles(graph: GraphData): GraphData {
+    const cycles: GraphCycle[] = [];
+
+    const detect = (type: GraphCycle['type'], edges: GraphEdge[]) => {
+        for (const nodeIds of findCycles(edges)) {
+            const members = new Set(nodeIds);
+            cycles.push({ type, nodeIds });
+
+            for (const edge of edges) {
+                if (members.has(edge.source) && members.has(edge.target)) {
+                    edge.isCycle = true;
+                }
+            }
+            for (const node of graph.nodes) {
+                if (members.has(node.id)) {
+                    node.isCycle = true;
+                }
+            }
+        }
+    };
+
+    detect('calls', graph.edges.filter(e => e.type === 'calls'));
+    detect('imports', graph.edges.filter(e => (e.type === 'import' || e.type === 'export') && !e.isTypeOnly));
+
+    graph.cycles = cycles;
+    return graph;
+}
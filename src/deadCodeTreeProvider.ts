@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GraphNode } from './types';
+
+// Files are the top-level elements, the dead functions they declare their children
+type DeadCodeElement = string | GraphNode;
+
+/**
+ * Lists the functions and methods found by the last dead code search, grouped by file.
+ */
+export class DeadCodeTreeProvider implements vscode.TreeDataProvider<DeadCodeElement>, vscode.Disposable {
+    private functionsByFile = new Map<string, GraphNode[]>();
+    private changeEmitter = new vscode.EventEmitter<DeadCodeElement | undefined>();
+
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    public setDeadFunctions(deadFunctions: GraphNode[]) {
+        this.functionsByFile.clear();
+        for (const deadFunction of deadFunctions) {
+            const functions = this.functionsByFile.get(deadFunction.filePath) ?? [];
+            functions.push(deadFunction);
+            this.functionsByFile.set(deadFunction.filePath, functions);
+        }
+        this.changeEmitter.fire(undefined);
+    }
+
+    public getTreeItem(element: DeadCodeElement): vscode.TreeItem {
+        if (typeof element === 'string') {
+            const item = new vscode.TreeItem(vscode.Uri.file(element), vscode.TreeItemCollapsibleState.Expanded);
+            item.description = `${vscode.workspace.asRelativePath(path.dirname(element))} · ${this.functionsByFile.get(element)?.length ?? 0}`;
+            return item;
+        }
+
+        const item = new vscode.TreeItem(element.name, vscode.TreeItemCollapsibleState.None);
+        item.iconPath = new vscode.ThemeIcon(element.id.startsWith('method:') ? 'symbol-method' : 'symbol-function');
+        const position = new vscode.Position(element.line ?? 0, element.column ?? 0);
+        item.description = `line ${position.line + 1}`;
+        item.command = {
+            command: 'vscode.open',
+            title: 'Open',
+            arguments: [vscode.Uri.file(element.filePath), { selection: new vscode.Range(position, position) }]
+        };
+        return item;
+    }
+
+    public getChildren(element?: DeadCodeElement): DeadCodeElement[] {
+        if (!element) {
+            return Array.from(this.functionsByFile.keys()).sort();
+        }
+        if (typeof element === 'string') {
+            return [...(this.functionsByFile.get(element) ?? [])].sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+        }
+        return [];
+    }
+
+    public dispose() {
+        this.changeEmitter.dispose();
+    }
+}
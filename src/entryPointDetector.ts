@@ -0,0 +1,204 @@
+import * as ts from 'typescript';
+
+export interface EntryPointContext {
+    checker: ts.TypeChecker;
+}
+
+/**
+ * An entry point found by a detector. `handlers` are the functions the framework
+ * invokes: function declarations, inline function expressions or references to
+ * functions (`controller.list`), which the analyzer resolves to call targets.
+ */
+export interface DetectedEntryPoint {
+    label: string;
+    // Where the entry point is declared; its position identifies the entry point
+    node: ts.Node;
+    handlers: ts.Node[];
+}
+
+export interface EntryPointDetector {
+    readonly kind: string;
+    detect(sourceFile: ts.SourceFile, context: EntryPointContext): DetectedEntryPoint[];
+}
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'options', 'head', 'all'];
+
+/**
+ * Express-style routes: `app.get('/users', auth, listUsers)`. The first argument
+ * must be a path, which keeps `map.get('key')` and friends out, and the last one a
+ * function, which keeps HTTP clients like `axios.get('/api', config)` out.
+ */
+export const expressRouteDetector: EntryPointDetector = {
+    kind: 'express',
+    detect(sourceFile, context) {
+        const entryPoints: DetectedEntryPoint[] = [];
+
+        forEachDescendant(sourceFile, node => {
+            if (!ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression) || node.arguments.length < 2) {
+                return;
+            }
+
+            const method = node.expression.name.text;
+            const routePath = getStringValue(node.arguments[0]);
+            const handler = node.arguments[node.arguments.length - 1];
+            if (!HTTP_METHODS.includes(method) || !routePath?.startsWith('/') || !isFunction(handler, context.checker)) {
+                return;
+            }
+
+            entryPoints.push({
+                label: `${method.toUpperCase()} ${routePath}`,
+                node,
+                handlers: node.arguments.slice(1)
+            });
+        });
+
+        return entryPoints;
+    }
+};
+
+/**
+ * NestJS handlers: methods decorated with `@Get()`, `@Post(':id')`, ... inside a
+ * `@Controller('prefix')` class.
+ */
+export const nestControllerDetector: EntryPointDetector = {
+    kind: 'nest',
+    detect(sourceFile) {
+        const entryPoints: DetectedEntryPoint[] = [];
+
+        forEachDescendant(sourceFile, node => {
+            if (!ts.isClassDeclaration(node)) {
+                return;
+            }
+
+            const controller = getDecorator(node, 'Controller');
+            if (!controller) {
+                return;
+            }
+
+            const prefix = getDecoratorPath(controller);
+            for (const member of node.members) {
+                if (!ts.isMethodDeclaration(member)) {
+                    continue;
+                }
+
+                for (const method of HTTP_METHODS) {
+                    const route = getDecorator(member, method.charAt(0).toUpperCase() + method.slice(1));
+                    if (route) {
+                        const routePath = joinRoutePaths(prefix, getDecoratorPath(route));
+                        entryPoints.push({ label: `${method.toUpperCase()} ${routePath}`, node: member, handlers: [member] });
+                    }
+                }
+            }
+        });
+
+        return entryPoints;
+    }
+};
+
+/**
+ * React components rendered in JSX (`<UserList />`). The entry point is the
+ * component declaration, so every component is listed once however often it is used.
+ */
+export const reactComponentDetector: EntryPointDetector = {
+    kind: 'react',
+    detect(sourceFile, { checker }) {
+        const entryPoints: DetectedEntryPoint[] = [];
+
+        forEachDescendant(sourceFile, node => {
+            if (!ts.isJsxOpeningElement(node) && !ts.isJsxSelfClosingElement(node)) {
+                return;
+            }
+
+            // Lower-case tags are intrinsic elements such as <div>
+            const tagName = node.tagName.getText(sourceFile);
+            if (!/^[A-Z]/.test(tagName.split('.').pop()!)) {
+                return;
+            }
+
+            let symbol = checker.getSymbolAtLocation(ts.isPropertyAccessExpression(node.tagName) ? node.tagName.name : node.tagName);
+            if (symbol && (symbol.flags & ts.SymbolFlags.Alias)) {
+                symbol = checker.getAliasedSymbol(symbol);
+            }
+
+            const declaration = symbol?.valueDeclaration;
+            if (!declaration || declaration.getSourceFile().isDeclarationFile) {
+                return;
+            }
+
+            // Class components run their render method
+            const handler = ts.isClassDeclaration(declaration)
+                ? declaration.members.find(member => ts.isMethodDeclaration(member) && member.name.getText() === 'render')
+                : declaration;
+            if (handler) {
+                entryPoints.push({ label: `<${tagName}>`, node: declaration, handlers: [handler] });
+            }
+        });
+
+        return entryPoints;
+    }
+};
+
+/**
+ * VS Code command callbacks: `vscode.commands.registerCommand('ext.command', run)`.
+ */
+export const vscodeCommandDetector: EntryPointDetector = {
+    kind: 'vscode-command',
+    detect(sourceFile) {
+        const entryPoints: DetectedEntryPoint[] = [];
+
+        forEachDescendant(sourceFile, node => {
+            if (!ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression) || node.arguments.length < 2) {
+                return;
+            }
+
+            const method = node.expression.name.text;
+            const commandId = getStringValue(node.arguments[0]);
+            if ((method === 'registerCommand' || method === 'registerTextEditorCommand') && commandId) {
+                entryPoints.push({ label: commandId, node, handlers: [node.arguments[1]] });
+            }
+        });
+
+        return entryPoints;
+    }
+};
+
+export const DEFAULT_ENTRY_POINT_DETECTORS: EntryPointDetector[] = [
+    expressRouteDetector,
+    nestControllerDetector,
+    reactComponentDetector,
+    vscodeCommandDetector
+];
+
+function forEachDescendant(node: ts.Node, callback: (node: ts.Node) => void) {
+    const visit = (child: ts.Node) => {
+        callback(child);
+        ts.forEachChild(child, visit);
+    };
+    ts.forEachChild(node, visit);
+}
+
+function isFunction(node: ts.Expression, checker: ts.TypeChecker): boolean {
+    return ts.isFunctionLike(node) || checker.getTypeAtLocation(node).getCallSignatures().length > 0;
+}
+
+function getStringValue(node: ts.Node): string | undefined {
+    return ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) ? node.text : undefined;
+}
+
+function getDecorator(node: ts.HasDecorators, name: string): ts.Decorator | undefined {
+    return ts.getDecorators(node)?.find(decorator =>
+        ts.isCallExpression(decorator.expression) &&
+        ts.isIdentifier(decorator.expression.expression) &&
+        decorator.expression.expression.text === name
+    );
+}
+
+function getDecoratorPath(decorator: ts.Decorator): string {
+    const [argument] = (decorator.expression as ts.CallExpression).arguments;
+    return argument ? getStringValue(argument) ?? '' : '';
+}
+
+function joinRoutePaths(prefix: string, routePath: string): string {
+    const segments = [prefix, routePath].map(segment => segment.replace(/^\/+|\/+$/g, '')).filter(Boolean);
+    return '/' + segments.join('/');
+}
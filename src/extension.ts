@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { CodeContextProvider } from './codeContextProvider';
+import { DeadCodeTreeProvider } from './deadCodeTreeProvider';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Code Context Navigator is now active!');
@@ -16,37 +17,108 @@ export function activate(context: vscode.ExtensionContext) {
         provider.refreshMap();
     });
 
-    // Watch for file changes to update the map
-    const fileWatcher = vscode.workspace.createFileSystemWatcher('**/*.{ts,js}');
-    
-    fileWatcher.onDidChange((uri) => {
-        provider.onFileChanged(uri);
+    // Register the show callers command
+    const showCallersCommand = vscode.commands.registerCommand('code-context-map.showCallers', () => {
+        provider.showCallers();
     });
 
-    fileWatcher.onDidCreate((uri) => {
-        provider.onFileChanged(uri);
+    // Register the entry point command
+    const showEntryPointCommand = vscode.commands.registerCommand('code-context-map.showEntryPoint', () => {
+        provider.showEntryPoint();
     });
 
-    fileWatcher.onDidDelete((uri) => {
-        provider.onFileDeleted(uri);
+    // Register the type structure command
+    const showTypeStructureCommand = vscode.commands.registerCommand('code-context-map.showTypeStructure', () => {
+        provider.showTypeStructure();
     });
 
-    // Watch for active editor changes
+    // Register the module dependencies command
+    const showModuleDependenciesCommand = vscode.commands.registerCommand('code-context-map.showModuleDependencies', () => {
+        provider.showModuleDependencies();
+    });
+
+    // Register the follow cursor toggle
+    const toggleFollowCursorCommand = vscode.commands.registerCommand('code-context-map.toggleFollowCursor', () => {
+        provider.toggleFollowCursor();
+    });
+
+    // Register the export command
+    const exportGraphCommand = vscode.commands.registerCommand('code-context-map.exportGraph', () => {
+        provider.exportGraph();
+    });
+
+    // Register the dead code view and the command that fills it
+    const deadCodeTree = new DeadCodeTreeProvider();
+    const deadCodeView = vscode.window.createTreeView('codeContextMap.deadCode', { treeDataProvider: deadCodeTree });
+    const findDeadCodeCommand = vscode.commands.registerCommand('code-context-map.findDeadCode', async () => {
+        const deadFunctions = await provider.findDeadCode();
+        if (deadFunctions) {
+            deadCodeTree.setDeadFunctions(deadFunctions);
+            deadCodeView.message = deadFunctions.length === 0 ? 'No dead code found' : undefined;
+        }
+    });
+
+    // Watch for file changes to update the map; the watcher is replaced when the supported extensions change
+    let fileWatcher = createFileWatcher(provider);
+
+    // Watch for project configuration and package manifest changes, which affect module resolution
+    const configWatcher = vscode.workspace.createFileSystemWatcher('**/{tsconfig*.json,jsconfig*.json,package.json,pnpm-workspace.yaml}');
+    configWatcher.onDidChange(() => provider.onProjectConfigChanged());
+    configWatcher.onDidCreate(() => provider.onProjectConfigChanged());
+    configWatcher.onDidDelete(() => provider.onProjectConfigChanged());
+
+    const workspaceFoldersWatcher = vscode.workspace.onDidChangeWorkspaceFolders(() => provider.onWorkspaceFoldersChanged());
+
+    // Watch for active editor changes; the provider skips files it does not support
     const editorWatcher = vscode.window.onDidChangeActiveTextEditor((editor) => {
-        if (editor && (editor.document.languageId === 'typescript' || editor.document.languageId === 'javascript')) {
+        if (editor) {
             provider.onActiveEditorChanged(editor);
         }
     });
 
+    // Re-root the map at the function under the cursor when follow cursor is enabled
+    const selectionWatcher = vscode.window.onDidChangeTextEditorSelection((event) => {
+        provider.onSelectionChanged(event);
+    });
+
+    const configurationWatcher = vscode.workspace.onDidChangeConfiguration((event) => {
+        provider.onConfigurationChanged(event);
+        if (event.affectsConfiguration('codeContextMap.extensions')) {
+            fileWatcher.dispose();
+            fileWatcher = createFileWatcher(provider);
+        }
+    });
+
     context.subscriptions.push(
         showMapCommand,
         refreshMapCommand,
-        fileWatcher,
+        showCallersCommand,
+        showEntryPointCommand,
+        showTypeStructureCommand,
+        showModuleDependenciesCommand,
+        toggleFollowCursorCommand,
+        exportGraphCommand,
+        findDeadCodeCommand,
+        deadCodeTree,
+        deadCodeView,
+        { dispose: () => fileWatcher.dispose() },
+        configWatcher,
+        workspaceFoldersWatcher,
         editorWatcher,
+        selectionWatcher,
+        configurationWatcher,
         provider
     );
 }
 
+function createFileWatcher(provider: CodeContextProvider): vscode.FileSystemWatcher {
+    const fileWatcher = vscode.workspace.createFileSystemWatcher(provider.getFileWatcherGlob());
+    fileWatcher.onDidChange((uri) => provider.onFileChanged(uri));
+    fileWatcher.onDidCreate((uri) => provider.onFileCreated(uri));
+    fileWatcher.onDidDelete((uri) => provider.onFileDeleted(uri));
+    return fileWatcher;
+}
+
 export function deactivate() {
     console.log('Code Context Navigator is now deactivated!');
 }
\ No newline at end of file
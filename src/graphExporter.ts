@@ -0,0 +1,148 @@
+import { GraphData, GraphNode, GraphEdge } from './types';
+
+export type TextExportFormat = 'dot' | 'mermaid' | 'json';
+export type ImageExportFormat = 'svg' | 'png';
+export type ExportFormat = TextExportFormat | ImageExportFormat;
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+    dot: 'dot',
+    mermaid: 'mmd',
+    json: 'json',
+    svg: 'svg',
+    png: 'png'
+};
+
+export function exportGraph(graph: GraphData, format: TextExportFormat): string {
+    switch (format) {
+        case 'dot':
+            return toDot(graph);
+        case 'mermaid':
+            return toMermaid(graph);
+        case 'json':
+            return toJson(graph);
+    }
+}
+
+/**
+ * Serializes the graph as raw JSON matching GraphNode/GraphEdge, plus the
+ * detected cycles when the graph has been annotated.
+ */
+export function toJson(graph: GraphData): string {
+    const { nodes, edges, cycles } = graph;
+    return JSON.stringify(cycles ? { nodes, edges, cycles } : { nodes, edges }, null, 2);
+}
+
+/**
+ * Serializes the graph as a Graphviz digraph. Node ids are kept as-is (quoted),
+ * so the output can be diffed between runs.
+ */
+export function toDot(graph: GraphData): string {
+    const lines: string[] = [
+        'digraph CodeContextMap {',
+        '    rankdir=LR;',
+        '    node [fontname="Helvetica", fontsize=10];',
+        '    edge [fontname="Helvetica", fontsize=8];'
+    ];
+
+    for (const node of graph.nodes) {
+        const attributes = [`label=${quoteDot(node.name)}`, `shape=${dotShape(node)}`];
+        if (node.isActiveFile || node.isFocused) {
+            attributes.push('penwidth=2');
+        }
+        if (node.isExternal || node.resolution) {
+            attributes.push('style=dashed');
+        }
+        lines.push(`    ${quoteDot(node.id)} [${attributes.join(', ')}];`);
+    }
+
+    for (const edge of graph.edges) {
+        const label = edge.type === 'calls' ? edge.asyncKind : edge.isTypeOnly ? `${edge.type} type` : edge.type;
+        const attributes = label ? [`label=${quoteDot(label)}`] : [];
+        if (edge.type === 'contains') {
+            attributes.push('style=dotted', 'arrowhead=none');
+        } else if (edge.isTypeOnly || edge.type === 'dispatch') {
+            attributes.push('style=dashed');
+        }
+        const suffix = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+        lines.push(`    ${quoteDot(edge.source)} -> ${quoteDot(edge.target)}${suffix};`);
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Serializes the graph as a Mermaid flowchart. Mermaid ids cannot contain paths,
+ * so nodes are renumbered and the original name becomes the label.
+ */
+export function toMermaid(graph: GraphData): string {
+    const lines: string[] = ['flowchart LR'];
+    const mermaidIds = new Map<string, string>();
+
+    graph.nodes.forEach((node, index) => {
+        const mermaidId = `n${index}`;
+        mermaidIds.set(node.id, mermaidId);
+        lines.push(`    ${mermaidId}${mermaidShape(node)}`);
+    });
+
+    for (const edge of graph.edges) {
+        const source = mermaidIds.get(edge.source);
+        const target = mermaidIds.get(edge.target);
+        if (!source || !target) {
+            continue;
+        }
+        lines.push(`    ${source} ${mermaidArrow(edge)} ${target}`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+function dotShape(node: GraphNode): string {
+    switch (node.type) {
+        case 'file':
+            return 'box';
+        case 'folder':
+            return 'folder';
+        case 'library':
+            return 'tab';
+        case 'class':
+            return 'diamond';
+        case 'interface':
+            return 'hexagon';
+        default:
+            return 'ellipse';
+    }
+}
+
+function quoteDot(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function mermaidShape(node: GraphNode): string {
+    const label = `"${node.name.replace(/"/g, '#quot;')}"`;
+    switch (node.type) {
+        case 'file':
+            return `[${label}]`;
+        case 'library':
+            return `[[${label}]]`;
+        case 'class':
+            return `{${label}}`;
+        case 'interface':
+            return `{{${label}}}`;
+        default:
+            return `(${label})`;
+    }
+}
+
+function mermaidArrow(edge: GraphEdge): string {
+    switch (edge.type) {
+        case 'calls':
+            return edge.asyncKind ? `-->|${edge.asyncKind}|` : '-->';
+        case 'contains':
+            return '-.-';
+        case 'dispatch':
+            return '-.->|dispatch|';
+        default:
+            return `-->|${edge.type}|`;
+    }
+}
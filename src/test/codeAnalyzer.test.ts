@@ -0,0 +1,688 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CodeAnalyzer } from '../codeAnalyzer';
+import { GraphData } from '../types';
+
+// Runs with plain mocha: the analyzer does not depend on the vscode module
+suite('Code Analyzer Test Suite', () => {
+	let root: string;
+
+	const writeFile = (relativePath: string, content: string) => {
+		const filePath = path.join(root, relativePath);
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, content);
+		return filePath;
+	};
+
+	suiteSetup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'code-context-map-'));
+		writeFile('tsconfig.json', JSON.stringify({
+			compilerOptions: { baseUrl: '.', paths: { '@lib/*': ['src/lib/*'] } }
+		}));
+		writeFile('src/lib/format.ts', 'export function format(value: string) { return trim(value); }\nfunction trim(value: string) { return value.trim(); }\n');
+		writeFile('src/main.ts', 'import { format } from \'@lib/format\';\nexport function main() { return format(\' hi \'); }\n');
+		writeFile('src/lib/base.ts', 'export interface Named { name: string; }\nexport abstract class Base { abstract run(): void; }\n');
+		writeFile('src/models.ts', [
+			'import { Base as BaseClass, Named } from \'./lib/base\';',
+			'export enum Kind { A, B }',
+			'const registry = new Map<string, Service>();',
+			'export class Service extends BaseClass implements Named {',
+			'    name = \'service\';',
+			'    run() { registry.set(this.name, this); }',
+			'}'
+		].join('\n'));
+		writeFile('src/lib/index.ts', 'export * from \'./format\';\nexport type { Named } from \'./base\';\n');
+		writeFile('src/app.ts', 'import { format } from \'./lib\';\nimport type { Named } from \'./lib/base\';\nexport function app(named: Named) { return format(named.name); }\n');
+		writeFile('resolution/a.ts', 'export function init() {}\nexport default function start() {}\n');
+		writeFile('resolution/b.ts', 'export function init() {}\n');
+		writeFile('resolution/shapes.ts', [
+			'export class Circle { draw() {} render() { this.draw(); } }',
+			'export class Square { draw() {} }'
+		].join('\n'));
+		writeFile('resolution/main.ts', [
+			'import { init as initA } from \'./a\';',
+			'import begin from \'./a\';',
+			'import * as b from \'./b\';',
+			'import { Circle, Square } from \'./shapes\';',
+			'export function main(shape: Circle | Square, callback: () => void) {',
+			'    initA(); begin(); b.init(); new Circle().render(); shape.draw(); callback();',
+			'}'
+		].join('\n'));
+		writeFile('members/store.ts', [
+			'export class Store {',
+			'    constructor() { this.reset(); }',
+			'    static create() { return new Store(); }',
+			'    reset = () => { this.size; };',
+			'    get size() { return count(); }',
+			'}',
+			'function count() { return 0; }',
+			'export const api = { list() { return Store.create(); }, routes: { show: () => api.list() } };'
+		].join('\n'));
+		writeFile('dispatch/repository.ts', [
+			'export interface Repository { save(): void; }',
+			'export abstract class BaseRepository implements Repository { abstract save(): void; }',
+			'export class SqlRepository extends BaseRepository { save() {} }',
+			'export class CachedRepository extends SqlRepository { save() { super.save(); } }',
+			'export function persist(repo: Repository) { repo.save(); }'
+		].join('\n'));
+		writeFile('callbacks/events.ts', [
+			'function transform(value: number) { return value * 2; }',
+			'function handle() {}',
+			'class Controller { list() {} }',
+			'export function wire(button: { onclick?: () => void }, controller: Controller) {',
+			'    [1, 2].map(transform);',
+			'    button.onclick = handle;',
+			'    const routes = { list: controller.list.bind(controller) };',
+			'    setTimeout(handle);',
+			'    handle();',
+			'}'
+		].join('\n'));
+		writeFile('entry/server.ts', [
+			'declare const app: { get(path: string, ...handlers: Function[]): void };',
+			'declare function Controller(prefix?: string): ClassDecorator;',
+			'declare function Get(path?: string): MethodDecorator;',
+			'declare const vscode: { commands: { registerCommand(id: string, run: () => void): void } };',
+			'function audit() {}',
+			'function listUsers() { audit(); }',
+			'app.get(\'/users\', listUsers);',
+			'app.get(\'/health\', () => audit());',
+			'@Controller(\'orders\')',
+			'export class OrdersController { @Get(\':id\') find() { audit(); } }',
+			'vscode.commands.registerCommand(\'orders.refresh\', listUsers);'
+		].join('\n'));
+		writeFile('entry-clients/client.ts', [
+			'declare const axios: { get(url: string, config?: object): Promise<unknown> };',
+			'declare const api: { post(url: string, body: unknown): Promise<unknown> };',
+			'const body = { name: \'Ada\' };',
+			'export function loadUsers() { return axios.get(\'/api/users\', { timeout: 1000 }); }',
+			'export function createUser() { return api.post(\'/users\', body); }'
+		].join('\n'));
+		writeFile('entry/App.tsx', 'function Header() { return null; }\nexport function App() { return <Header />; }\n');
+		writeFile('react/App.tsx', [
+			'declare class Component { }',
+			'declare function memo<T>(component: T): T;',
+			'declare function Route(props: { component: unknown }): null;',
+			'class Sidebar extends Component { render() { return <nav />; } }',
+			'const UserCard = memo(() => <div />);',
+			'function UserPage() { return <UserCard />; }',
+			'function handleClick() {}',
+			'export function App() { return <main onClick={handleClick}><Sidebar /><Route component={UserPage} /></main>; }'
+		].join('\n'));
+		writeFile('async/jobs.ts', [
+			'async function load() { return 1; }',
+			'async function save() {}',
+			'async function notify() {}',
+			'async function audit() {}',
+			'function sync() {}',
+			'export async function run() {',
+			'    await load();',
+			'    save().then(sync);',
+			'    notify();',
+			'    sync();',
+			'    return audit();',
+			'}'
+		].join('\n'));
+		writeFile('async/callbacks.ts', [
+			'async function save(id: number) {}',
+			'async function load(id: number) { return id; }',
+			'async function notify() {}',
+			'declare function schedule(callback: () => void): void;',
+			'export function saveAll(ids: number[]) { ids.forEach(id => save(id)); }',
+			'export function loadAll(ids: number[]) { return Promise.all(ids.map(id => load(id))); }',
+			'export function later() { schedule(() => notify()); }'
+		].join('\n'));
+		writeFile('callsites/report.ts', [
+			'function format(value: number) { return String(value); }',
+			'export function report(values: number[]) {',
+			'    const first = format(values[0]);',
+			'    values.map(format);',
+			'    return first + format(values[1]);',
+			'}'
+		].join('\n'));
+		writeFile('metrics/score.ts', [
+			'function clamp(value: number, min: number, max: number) {',
+			'    return value < min ? min : value > max ? max : value;',
+			'}',
+			'export function score(values: number[], bonus?: number) {',
+			'    let total = 0;',
+			'    for (const value of values) {',
+			'        if (value > 0 && value < 10) {',
+			'            total += clamp(value, 0, 5);',
+			'        }',
+			'    }',
+			'    const round = (n: number) => n > 0 ? Math.round(n) : 0;',
+			'    return round(total + (bonus ?? 0));',
+			'}'
+		].join('\n'));
+		writeFile('dead/lib.ts', [
+			'function used() {}',
+			'function unused() { helper(); }',
+			'function helper() {}',
+			'function init() {}',
+			'init();',
+			'export function main() { used(); }',
+			'export class Store {',
+			'    save() {}',
+			'    private stale() {}',
+			'    get size() { return 0; }',
+			'}'
+		].join('\n'));
+		writeFile('multiroot/shared/util.ts', 'export function format() {}\n');
+		writeFile('multiroot/app/main.ts', 'import { format } from \'../shared/util\';\nexport function main() { format(); }\n');
+		writeFile('monorepo/package.json', JSON.stringify({ private: true, workspaces: ['packages/*'] }));
+		writeFile('monorepo/pnpm-workspace.yaml', 'packages:\n  - \'libs/*\' # shared code\n');
+		writeFile('monorepo/packages/core/package.json', JSON.stringify({ name: '@acme/core', main: 'dist/index.js', types: 'dist/index.d.ts' }));
+		writeFile('monorepo/packages/core/src/index.ts', 'export function greet() {}\n');
+		writeFile('monorepo/libs/text/package.json', JSON.stringify({
+			name: '@acme/text',
+			exports: { './case': { types: './dist/case.d.ts', default: './dist/case.js' } }
+		}));
+		writeFile('monorepo/libs/text/src/case.ts', 'export function upper(value: string) { return value.toUpperCase(); }\n');
+		writeFile('monorepo/packages/app/package.json', JSON.stringify({ name: '@acme/app' }));
+		writeFile('monorepo/packages/app/src/main.ts', [
+			'import { greet } from \'@acme/core\';',
+			'import { upper } from \'@acme/text/case\';',
+			'export function main() { greet(); helper(); }',
+			'function helper() { return upper(\'hi\'); }'
+		].join('\n'));
+		writeFile('libraries/node_modules/lodash/package.json', JSON.stringify({ name: 'lodash', main: 'index.js', types: 'index.d.ts' }));
+		writeFile('libraries/node_modules/lodash/index.d.ts', 'export declare function debounce(fn: () => void, wait: number): () => void;\n');
+		writeFile('libraries/node_modules/lodash/index.js', 'export function debounce(fn, wait) { return throttle(fn, wait); }\nfunction throttle(fn) { return fn; }\n');
+		writeFile('libraries/types/fs.d.ts', 'declare module \'fs\' {\n    export function readFileSync(path: string): string;\n}\n');
+		writeFile('libraries/app.ts', [
+			'/// <reference path="./types/fs.d.ts" />',
+			'import * as fs from \'fs\';',
+			'import * as _ from \'lodash\';',
+			'export function load() { const text = fs.readFileSync(\'config.json\'); return _.debounce(() => text.trim(), 100); }'
+		].join('\n'));
+		writeFile('settings/.gitignore', 'generated/\n*.gen.ts\n!keep.gen.ts\n');
+		writeFile('settings/generated/api.ts', 'function unused() {}\n');
+		writeFile('settings/vendor/lib.ts', 'function unused() {}\n');
+		writeFile('settings/src/skip.gen.ts', 'function unused() {}\n');
+		writeFile('settings/src/keep.gen.ts', 'function unused() {}\n');
+		writeFile('settings/src/module.mts', 'function unused() {}\n');
+		writeFile('settings/src/legacy.cjs', 'function unused() {}\n');
+		writeFile('settings/src/format.ts', 'export function format(value: string) { return value.trim(); }\n');
+		writeFile('settings/src/Widget.vue', [
+			'<template>',
+			'  <div>{{ label }}</div>',
+			'</template>',
+			'<script lang="ts">',
+			'import { format } from \'./format\';',
+			'function unused() {}',
+			'export function label() { return format(\' widget \'); }',
+			'</script>'
+		].join('\n'));
+		writeFile('invalidation/a.ts', 'import { f } from \'./index\';\nexport function run() { f(); }\n');
+		writeFile('invalidation/index.ts', 'export * from \'./b\';\n');
+		writeFile('invalidation/b.ts', 'export function f() {}\n');
+		writeFile('invalidation/c.ts', 'export function f() {}\n');
+		writeFile('injection/repository.ts', 'export interface Repository { save(): void; }\n');
+		writeFile('injection/sql.ts', 'import { Repository } from \'./repository\';\nexport class SqlRepository implements Repository { save() {} }\n');
+		writeFile('injection/cached.ts', 'import { SqlRepository } from \'./sql\';\nexport class CachedRepository extends SqlRepository { save() {} }\n');
+		writeFile('injection/service.ts', 'import { Repository } from \'./repository\';\nexport function persist(repo: Repository) { repo.save(); }\n');
+		writeFile('cyclic/a.ts', 'import { b } from \'./b\';\nexport const a = () => b();\n');
+		writeFile('cyclic/b.ts', 'import { a } from \'./a\';\nexport const b = () => a();\n');
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('Follows calls through tsconfig path aliases', async () => {
+		const analyzer = new CodeAnalyzer();
+		const mainFile = path.join(root, 'src/main.ts');
+		const formatFile = path.join(root, 'src/lib/format.ts');
+
+		const graph = await analyzer.analyzeActiveFile(mainFile, root);
+
+		const calls = graph.edges.filter(e => e.type === 'calls').map(e => `${e.source} -> ${e.target}`);
+		assert.deepStrictEqual(calls, [
+			`function:${mainFile}:main -> function:${formatFile}:format`,
+			`function:${formatFile}:format -> function:${formatFile}:trim`
+		]);
+	});
+
+	test('Resolves the cursor position to the enclosing function, method or arrow function', () => {
+		const analyzer = new CodeAnalyzer();
+		const cursorFile = path.join(root, 'cursor/service.ts');
+		const content = [
+			'const limit = 10;',
+			'export class UserService {',
+			'    find(id: string) {',
+			'        return id;',
+			'    }',
+			'}',
+			'export const format = (name: string) => {',
+			'    return name.trim();',
+			'};',
+			'export function outer() {',
+			'    function inner() {',
+			'        return limit;',
+			'    }',
+			'    return inner();',
+			'}'
+		].join('\n');
+
+		const idAt = (line: number, column: number) => analyzer.getFunctionIdAtPosition(cursorFile, line, column, content);
+
+		assert.strictEqual(idAt(3, 8), `method:${cursorFile}:UserService:find`);
+		assert.strictEqual(idAt(7, 4), `function:${cursorFile}:format`);
+		assert.strictEqual(idAt(11, 8), `function:${cursorFile}:inner`);
+		assert.strictEqual(idAt(13, 4), `function:${cursorFile}:outer`);
+		assert.strictEqual(idAt(0, 6), undefined);
+		assert.deepStrictEqual(analyzer.getCodeContextAtPosition(cursorFile, 0, 6, content), { filePath: cursorFile, line: 0, column: 6 });
+	});
+
+	test('Limits the call chain to the requested depth', async () => {
+		const analyzer = new CodeAnalyzer();
+		const mainFile = path.join(root, 'src/main.ts');
+		const formatFile = path.join(root, 'src/lib/format.ts');
+
+		const oneLevel = await analyzer.analyzeActiveFile(mainFile, root, 1);
+		const twoLevels = await analyzer.analyzeActiveFile(mainFile, root, 2);
+
+		const calls = (graph: GraphData) =>
+			graph.edges.filter(e => e.type === 'calls').map(e => `${e.source} -> ${e.target}`);
+		assert.deepStrictEqual(calls(oneLevel), [`function:${mainFile}:main -> function:${formatFile}:format`]);
+		assert.deepStrictEqual(calls(twoLevels), [
+			`function:${mainFile}:main -> function:${formatFile}:format`,
+			`function:${formatFile}:format -> function:${formatFile}:trim`
+		]);
+	});
+
+	test('Builds the incoming call tree for callers mode', async () => {
+		const analyzer = new CodeAnalyzer();
+		const formatFile = path.join(root, 'src/lib/format.ts');
+
+		const graph = await analyzer.analyzeCallers(`function:${formatFile}:trim`, root);
+
+		const callers = graph.nodes.filter(n => n.type === 'function' && !n.isFocused).map(n => n.name).sort();
+		assert.deepStrictEqual(callers, ['app', 'format', 'main']);
+	});
+
+	test('Builds the type structure with heritage edges', async () => {
+		const analyzer = new CodeAnalyzer();
+		const modelsFile = path.join(root, 'src/models.ts');
+		const baseFile = path.join(root, 'src/lib/base.ts');
+
+		const graph = await analyzer.analyzeTypeStructure(modelsFile, root);
+
+		const edges = graph.edges.filter(e => e.type !== 'contains').map(e => `${e.source} -${e.type}-> ${e.target}`).sort();
+		assert.deepStrictEqual(edges, [
+			`class:${modelsFile}:Service -extends-> class:${baseFile}:Base`,
+			`class:${modelsFile}:Service -implements-> interface:${baseFile}:Named`,
+			`method:${modelsFile}:Service:run -references-> variable:${modelsFile}:registry`
+		]);
+		assert.ok(graph.nodes.some(n => n.id === `enum:${modelsFile}:Kind` && n.type === 'enum'));
+	});
+
+	test('Builds the module dependency graph with re-exports and type-only imports', async () => {
+		const analyzer = new CodeAnalyzer();
+		const file = (relativePath: string) => `file:${path.join(root, relativePath)}`;
+
+		const graph = await analyzer.analyzeModuleDependencies(path.join(root, 'src/app.ts'), root);
+
+		const edges = graph.edges.map(e => `${e.source} -${e.type}${e.isTypeOnly ? ' type' : ''}-> ${e.target}`).sort();
+		assert.deepStrictEqual(edges, [
+			`${file('src/app.ts')} -import type-> ${file('src/lib/base.ts')}`,
+			`${file('src/app.ts')} -import-> ${file('src/lib/index.ts')}`,
+			`${file('src/lib/index.ts')} -export type-> ${file('src/lib/base.ts')}`,
+			`${file('src/lib/index.ts')} -export-> ${file('src/lib/format.ts')}`
+		]);
+		assert.deepStrictEqual(new Set(graph.nodes.map(n => n.group)), new Set(['src', path.join('src', 'lib')]));
+	});
+
+	test('Reports the imports that form an import cycle', async () => {
+		const analyzer = new CodeAnalyzer();
+		const aFile = path.join(root, 'cyclic/a.ts');
+		const bFile = path.join(root, 'cyclic/b.ts');
+
+		const cycles = await analyzer.findImportCycles(aFile, root);
+
+		assert.strictEqual(cycles.length, 1);
+		assert.deepStrictEqual([...cycles[0].files].sort(), [aFile, bFile]);
+		assert.deepStrictEqual(cycles[0].imports.map(i => `${path.basename(i.filePath)}:${i.line}:${i.column} ${i.modulePath}`).sort(), [
+			'a.ts:0:18 ./b',
+			'b.ts:0:18 ./a'
+		]);
+	});
+
+	test('Resolves calls through the type checker instead of by name', async () => {
+		const analyzer = new CodeAnalyzer();
+		const file = (relativePath: string) => path.join(root, relativePath);
+
+		const graph = await analyzer.analyzeActiveFile(file('resolution/main.ts'), root);
+
+		const calls = graph.edges.filter(e => e.type === 'calls').map(e => `${e.source} -> ${e.target}`).sort();
+		assert.deepStrictEqual(calls, [
+			`function:${file('resolution/main.ts')}:main -> function:${file('resolution/a.ts')}:init`,
+			`function:${file('resolution/main.ts')}:main -> function:${file('resolution/a.ts')}:start`,
+			`function:${file('resolution/main.ts')}:main -> function:${file('resolution/b.ts')}:init`,
+			`function:${file('resolution/main.ts')}:main -> function:ambiguous:draw`,
+			`function:${file('resolution/main.ts')}:main -> function:unresolved:callback`,
+			`function:${file('resolution/main.ts')}:main -> method:${file('resolution/shapes.ts')}:Circle:render`,
+			`method:${file('resolution/shapes.ts')}:Circle:render -> method:${file('resolution/shapes.ts')}:Circle:draw`
+		]);
+		assert.strictEqual(graph.nodes.find(n => n.id === 'function:ambiguous:draw')?.resolution, 'ambiguous');
+	});
+
+	test('Models constructors, static methods, class fields, accessors and object literal members', async () => {
+		const analyzer = new CodeAnalyzer();
+		const storeFile = path.join(root, 'members/store.ts');
+		const id = (name: string) => `method:${storeFile}:${name}`;
+
+		const graph = await analyzer.analyzeActiveFile(storeFile, root);
+
+		const functions = graph.nodes.filter(n => n.type === 'function').map(n => `${n.name}@${n.line}`).sort();
+		assert.deepStrictEqual(functions, [
+			'Store.constructor@1', 'Store.create@2', 'Store.get size@4', 'Store.reset@3',
+			'api.list@7', 'api.routes.show@7', 'count@6'
+		]);
+		const calls = graph.edges.filter(e => e.type === 'calls').map(e => `${e.source} -> ${e.target}`).sort();
+		assert.deepStrictEqual(calls, [
+			`${id('Store:constructor')} -> ${id('Store:reset')}`,
+			`${id('Store:create')} -> ${id('Store:constructor')}`,
+			`${id('Store:get size')} -> function:${storeFile}:count`,
+			`${id('api.routes:show')} -> ${id('api:list')}`,
+			`${id('api:list')} -> ${id('Store:create')}`
+		]);
+	});
+
+	test('Fans out interface and base class calls to implementations', async () => {
+		const analyzer = new CodeAnalyzer();
+		const repositoryFile = path.join(root, 'dispatch/repository.ts');
+		const save = (className: string) => `method:${repositoryFile}:${className}:save`;
+
+		const graph = await analyzer.analyzeActiveFile(repositoryFile, root);
+
+		const edges = graph.edges.filter(e => e.type === 'calls' || e.type === 'dispatch').map(e => `${e.source} -${e.type}-> ${e.target}`).sort();
+		assert.deepStrictEqual(edges, [
+			`function:${repositoryFile}:persist -calls-> ${save('Repository')}`,
+			`${save('BaseRepository')} -dispatch-> ${save('CachedRepository')}`,
+			`${save('BaseRepository')} -dispatch-> ${save('SqlRepository')}`,
+			`${save('CachedRepository')} -calls-> ${save('SqlRepository')}`,
+			`${save('Repository')} -dispatch-> ${save('BaseRepository')}`,
+			`${save('Repository')} -dispatch-> ${save('CachedRepository')}`,
+			`${save('Repository')} -dispatch-> ${save('SqlRepository')}`,
+			`${save('SqlRepository')} -dispatch-> ${save('CachedRepository')}`
+		]);
+	});
+
+	test('Adds references edges for functions passed as arguments or assigned to properties', async () => {
+		const analyzer = new CodeAnalyzer();
+		const eventsFile = path.join(root, 'callbacks/events.ts');
+
+		const graph = await analyzer.analyzeActiveFile(eventsFile, root);
+
+		const edges = graph.edges.filter(e => e.source === `function:${eventsFile}:wire`).map(e => `${e.type} ${e.target}`).sort();
+		assert.deepStrictEqual(edges, [
+			'calls external:globals:setTimeout',
+			`calls function:${eventsFile}:handle`,
+			`references function:${eventsFile}:transform`,
+			`references method:${eventsFile}:Controller:list`
+		]);
+	});
+
+	test('Detects framework entry points and builds their downstream call tree', async () => {
+		const analyzer = new CodeAnalyzer();
+		const serverFile = path.join(root, 'entry/server.ts');
+
+		const entryPoints = (await analyzer.findEntryPoints(root)).filter(e => e.filePath.includes(`${path.sep}entry${path.sep}`));
+
+		assert.deepStrictEqual(entryPoints.map(e => `${e.kind} ${e.label}`).sort(), [
+			'express GET /health',
+			'express GET /users',
+			'nest GET /orders/:id',
+			'react <Header>',
+			'vscode-command orders.refresh'
+		]);
+		assert.deepStrictEqual(entryPoints.find(e => e.label === 'GET /health')?.targets, [`function:${serverFile}:audit`]);
+
+		const route = entryPoints.find(e => e.label === 'GET /users')!;
+		const graph = await analyzer.analyzeEntryPoint(route, root);
+		const calls = graph.edges.filter(e => e.type === 'calls').map(e => `${e.source} -> ${e.target}`);
+		assert.deepStrictEqual(calls, [
+			`${route.id} -> function:${serverFile}:listUsers`,
+			`function:${serverFile}:listUsers -> function:${serverFile}:audit`
+		]);
+		assert.strictEqual(graph.nodes.find(n => n.isFocused)?.entryPointKind, 'express');
+	});
+
+	test('Ignores HTTP client calls that look like routes', async () => {
+		const analyzer = new CodeAnalyzer();
+
+		const entryPoints = (await analyzer.findEntryPoints(root)).filter(e => e.filePath.includes(`${path.sep}entry-clients${path.sep}`));
+
+		assert.deepStrictEqual(entryPoints, []);
+	});
+
+	test('Adds renders edges for JSX elements and components passed as props', async () => {
+		const analyzer = new CodeAnalyzer();
+		const appFile = path.join(root, 'react/App.tsx');
+
+		const graph = await analyzer.analyzeActiveFile(appFile, root);
+
+		const edges = graph.edges.filter(e => e.type !== 'contains').map(e => `${e.source} -${e.type}-> ${e.target}`).sort();
+		assert.deepStrictEqual(edges, [
+			`function:${appFile}:App -references-> function:${appFile}:handleClick`,
+			`function:${appFile}:App -renders-> function:${appFile}:Route`,
+			`function:${appFile}:App -renders-> function:${appFile}:UserPage`,
+			`function:${appFile}:App -renders-> method:${appFile}:Sidebar:render`,
+			`function:${appFile}:UserPage -renders-> function:${appFile}:UserCard`
+		]);
+		const components = graph.nodes.filter(n => n.isComponent).map(n => n.name).sort();
+		assert.deepStrictEqual(components, ['App', 'Sidebar.render', 'UserCard', 'UserPage']);
+	});
+
+	test('Annotates async calls as awaited, returned, chained or floating', async () => {
+		const analyzer = new CodeAnalyzer();
+		const jobsFile = path.join(root, 'async/jobs.ts');
+
+		const graph = await analyzer.analyzeActiveFile(jobsFile, root);
+
+		const calls = graph.edges.filter(e => e.source === `function:${jobsFile}:run`).map(e => `${e.target.split(':').pop()} ${e.type} ${e.asyncKind}`).sort();
+		assert.deepStrictEqual(calls, [
+			'audit calls returned',
+			'load calls awaited',
+			'notify calls floating',
+			'save calls chained',
+			'sync calls undefined'
+		]);
+	});
+
+	test('Annotates async calls in callbacks whose result is discarded as floating', async () => {
+		const analyzer = new CodeAnalyzer();
+		const callbacksFile = path.join(root, 'async/callbacks.ts');
+
+		const graph = await analyzer.analyzeActiveFile(callbacksFile, root);
+
+		const calls = graph.edges.filter(e => e.asyncKind).map(e => `${e.source.split(':').pop()} -> ${e.target.split(':').pop()} ${e.asyncKind}`).sort();
+		assert.deepStrictEqual(calls, [
+			'later -> notify floating',
+			'loadAll -> load returned',
+			'saveAll -> save floating'
+		]);
+	});
+
+	test('Records every call site of an edge and weighs the edge by their count', async () => {
+		const analyzer = new CodeAnalyzer();
+		const reportFile = path.join(root, 'callsites/report.ts');
+
+		const graph = await analyzer.analyzeActiveFile(reportFile, root);
+
+		const edge = graph.edges.find(e => e.source === `function:${reportFile}:report` && e.target === `function:${reportFile}:format`);
+		assert.strictEqual(edge?.type, 'calls');
+		assert.strictEqual(edge?.weight, 2);
+		assert.deepStrictEqual(edge?.callSites?.map(site => `${site.line}:${site.column} ${site.snippet}`), [
+			'2:18 const first = format(values[0]);',
+			'4:19 return first + format(values[1]);'
+		]);
+	});
+
+	test('Computes complexity, size and fan-in/fan-out metrics per function', async () => {
+		const analyzer = new CodeAnalyzer();
+		const scoreFile = path.join(root, 'metrics/score.ts');
+
+		const graph = await analyzer.analyzeActiveFile(scoreFile, root);
+
+		const metrics = (name: string) => graph.nodes.find(n => n.id === `function:${scoreFile}:${name}`)?.metrics;
+		assert.deepStrictEqual(metrics('score'), { complexity: 5, lines: 10, parameters: 2, fanIn: 0, fanOut: 2 });
+		assert.deepStrictEqual(metrics('clamp'), { complexity: 3, lines: 3, parameters: 3, fanIn: 1, fanOut: 0 });
+		assert.deepStrictEqual(metrics('round'), { complexity: 2, lines: 1, parameters: 1, fanIn: 1, fanOut: 0 });
+		assert.strictEqual(graph.nodes.find(n => n.name === 'score')?.size, 10);
+	});
+
+	test('Finds functions no export, entry point or caller reaches', async () => {
+		const analyzer = new CodeAnalyzer();
+		const libFile = path.join(root, 'dead/lib.ts');
+
+		const deadFunctions = await analyzer.findDeadCode(path.join(root, 'dead'));
+
+		assert.deepStrictEqual(deadFunctions.map(node => node.id).sort(), [
+			`function:${libFile}:helper`,
+			`function:${libFile}:unused`,
+			`method:${libFile}:Store:stale`
+		]);
+	});
+
+	test('Follows callers and imports across the roots of a multi-root workspace', async () => {
+		const analyzer = new CodeAnalyzer();
+		const appRoot = path.join(root, 'multiroot/app');
+		const sharedRoot = path.join(root, 'multiroot/shared');
+		const utilFile = path.join(sharedRoot, 'util.ts');
+		analyzer.setWorkspaceRoots([appRoot, sharedRoot]);
+
+		const callers = await analyzer.analyzeCallers(`function:${utilFile}:format`, sharedRoot);
+		const modules = await analyzer.analyzeModuleDependencies(path.join(appRoot, 'main.ts'), appRoot);
+
+		assert.deepStrictEqual(callers.edges.filter(e => e.type === 'calls').map(e => e.source), [`function:${path.join(appRoot, 'main.ts')}:main`]);
+		assert.deepStrictEqual(modules.nodes.map(n => n.group).sort(), ['.', 'shared']);
+	});
+
+	test('Follows imports of workspace packages to their sources and flags package boundaries', async () => {
+		const analyzer = new CodeAnalyzer();
+		const workspaceRoot = path.join(root, 'monorepo');
+		const mainFile = path.join(workspaceRoot, 'packages/app/src/main.ts');
+
+		const graph = analyzer.annotatePackages(await analyzer.analyzeActiveFile(mainFile, workspaceRoot));
+
+		const calls = graph.edges.filter(e => e.type === 'calls').map(e => `${e.source.split(':').pop()} -> ${e.target}${e.isPackageBoundary ? ' (boundary)' : ''}`).sort();
+		assert.deepStrictEqual(calls, [
+			`helper -> function:${path.join(workspaceRoot, 'libs/text/src/case.ts')}:upper (boundary)`,
+			`main -> function:${mainFile}:helper`,
+			`main -> function:${path.join(workspaceRoot, 'packages/core/src/index.ts')}:greet (boundary)`
+		]);
+		assert.deepStrictEqual(Array.from(new Set(graph.nodes.map(n => n.package))).sort(), ['@acme/app', '@acme/core', '@acme/text']);
+	});
+
+	test('Resolves library calls to their package and declaration and clusters them per package', async () => {
+		const analyzer = new CodeAnalyzer();
+		const appFile = path.join(root, 'libraries/app.ts');
+
+		const graph = await analyzer.analyzeActiveFile(appFile, path.join(root, 'libraries'));
+
+		const calls = graph.edges.filter(e => e.type === 'calls').map(e => e.target).sort();
+		assert.deepStrictEqual(calls, ['external:fs:readFileSync', 'external:lodash:debounce']);
+		const debounce = graph.nodes.find(n => n.id === 'external:lodash:debounce');
+		assert.strictEqual(debounce?.name, 'lodash.debounce');
+		assert.strictEqual(debounce?.filePath, path.join(root, 'libraries/node_modules/lodash/index.d.ts'));
+		assert.strictEqual(debounce?.line, 0);
+		const contains = graph.edges.filter(e => e.source.startsWith('library:')).map(e => `${e.source} -> ${e.target}`).sort();
+		assert.deepStrictEqual(contains, ['library:fs -> external:fs:readFileSync', 'library:lodash -> external:lodash:debounce']);
+	});
+
+	test('Drills one level into the JavaScript sources of selected packages', async () => {
+		const analyzer = new CodeAnalyzer();
+		const appFile = path.join(root, 'libraries/app.ts');
+		const debounceId = `function:${path.join(root, 'libraries/node_modules/lodash/index.js')}:debounce`;
+		analyzer.setDrillInPackages(['lodash']);
+
+		const graph = await analyzer.analyzeActiveFile(appFile, path.join(root, 'libraries'));
+
+		const calls = graph.edges.filter(e => e.type === 'calls').map(e => `${e.source.split(':').pop()} -> ${e.target}`).sort();
+		assert.deepStrictEqual(calls, ['load -> external:fs:readFileSync', `load -> ${debounceId}`]);
+		const debounce = graph.nodes.find(n => n.id === debounceId);
+		assert.strictEqual(debounce?.isExternal, true);
+		assert.strictEqual(debounce?.package, 'lodash');
+	});
+
+	test('Analyzes the configured extensions and skips excluded and git-ignored files', async () => {
+		const analyzer = new CodeAnalyzer();
+		const settingsRoot = path.join(root, 'settings');
+		analyzer.setSettings({ exclude: ['vendor/**'] });
+
+		const deadFunctions = await analyzer.findDeadCode(settingsRoot);
+
+		assert.deepStrictEqual(deadFunctions.map(node => path.relative(settingsRoot, node.filePath)).sort(), [
+			path.join('src', 'Widget.vue'),
+			path.join('src', 'keep.gen.ts'),
+			path.join('src', 'legacy.cjs'),
+			path.join('src', 'module.mts')
+		]);
+	});
+
+	test('Follows calls out of the script block of a Vue component', async () => {
+		const analyzer = new CodeAnalyzer();
+		const widgetFile = path.join(root, 'settings/src/Widget.vue');
+
+		const graph = await analyzer.analyzeActiveFile(widgetFile, path.join(root, 'settings'));
+
+		const calls = graph.edges.filter(e => e.type === 'calls').map(e => `${e.source} -> ${e.target}`);
+		assert.deepStrictEqual(calls, [`function:${widgetFile}:label -> function:${path.join(root, 'settings/src/format.ts')}:format`]);
+		assert.strictEqual(graph.nodes.find(n => n.id === `function:${widgetFile}:label`)?.line, 6);
+	});
+
+	test('Leaves out externals and cuts graphs down to the node limit when configured', async () => {
+		const analyzer = new CodeAnalyzer();
+		analyzer.setSettings({ includeExternals: false, maxNodes: 3 });
+
+		const graph = await analyzer.analyzeActiveFile(path.join(root, 'libraries/app.ts'), path.join(root, 'libraries'));
+		const limited = analyzer.limitGraph({
+			nodes: ['a', 'b', 'c', 'd', 'e'].map(name => ({ id: name, name, type: 'function', filePath: name, isFocused: name === 'c' })),
+			edges: [
+				{ source: 'a', target: 'b', type: 'calls' },
+				{ source: 'b', target: 'c', type: 'calls' },
+				{ source: 'c', target: 'd', type: 'calls' },
+				{ source: 'd', target: 'e', type: 'calls' }
+			]
+		});
+
+		assert.deepStrictEqual(graph.edges.filter(e => e.type === 'calls'), []);
+		assert.deepStrictEqual(limited.nodes.map(n => n.id), ['b', 'c', 'd']);
+		assert.deepStrictEqual(limited.edges.map(e => `${e.source} -> ${e.target}`), ['b -> c', 'c -> d']);
+		assert.strictEqual(limited.truncatedNodeCount, 2);
+	});
+
+	test('Re-resolves calls passing through re-exports after a file two imports away changes', async () => {
+		const analyzer = new CodeAnalyzer();
+		const workspacePath = path.join(root, 'invalidation');
+		const aFile = path.join(workspacePath, 'a.ts');
+		const callTargets = async () => (await analyzer.analyzeActiveFile(aFile, workspacePath)).edges.filter(e => e.type === 'calls').map(e => e.target);
+
+		assert.deepStrictEqual(await callTargets(), [`function:${path.join(workspacePath, 'b.ts')}:f`]);
+
+		const bFile = writeFile('invalidation/b.ts', 'export { f } from \'./c\';\n');
+		analyzer.invalidateFile(bFile);
+
+		assert.deepStrictEqual(await callTargets(), [`function:${path.join(workspacePath, 'c.ts')}:f`]);
+	});
+
+	test('Finds implementations and subclasses in files the caller does not import', async () => {
+		const analyzer = new CodeAnalyzer();
+		const workspacePath = path.join(root, 'injection');
+		const save = (fileName: string, className: string) => `method:${path.join(workspacePath, fileName)}:${className}:save`;
+
+		const graph = await analyzer.analyzeActiveFile(path.join(workspacePath, 'service.ts'), workspacePath);
+
+		const edges = graph.edges.filter(e => e.type === 'calls' || e.type === 'dispatch').map(e => `${e.source} -${e.type}-> ${e.target}`).sort();
+		assert.deepStrictEqual(edges, [
+			`function:${path.join(workspacePath, 'service.ts')}:persist -calls-> ${save('repository.ts', 'Repository')}`,
+			`${save('repository.ts', 'Repository')} -dispatch-> ${save('cached.ts', 'CachedRepository')}`,
+			`${save('repository.ts', 'Repository')} -dispatch-> ${save('sql.ts', 'SqlRepository')}`,
+			`${save('sql.ts', 'SqlRepository')} -dispatch-> ${save('cached.ts', 'CachedRepository')}`
+		]);
+	});
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { annotateCycles, findCycles } from '../cycleDetector';
+import { GraphData } from '../types';
+
+suite('Cycle Detector Test Suite', () => {
+	test('Finds multi-node cycles and direct recursion', () => {
+		const cycles = findCycles([
+			{ source: 'a', target: 'b', type: 'calls' },
+			{ source: 'b', target: 'c', type: 'calls' },
+			{ source: 'c', target: 'a', type: 'calls' },
+			{ source: 'c', target: 'd', type: 'calls' },
+			{ source: 'e', target: 'e', type: 'calls' }
+		]);
+
+		assert.deepStrictEqual(cycles.map(cycle => [...cycle].sort()), [['a', 'b', 'c'], ['e']]);
+	});
+
+	test('Returns nothing for an acyclic graph', () => {
+		assert.deepStrictEqual(findCycles([
+			{ source: 'a', target: 'b', type: 'calls' },
+			{ source: 'a', target: 'c', type: 'calls' },
+			{ source: 'b', target: 'c', type: 'calls' }
+		]), []);
+	});
+
+	test('Ignores type-only imports when annotating import cycles', () => {
+		const graph: GraphData = {
+			nodes: ['a', 'b', 'c'].map(name => ({ id: `file:${name}`, name, type: 'file', filePath: name })),
+			edges: [
+				{ source: 'file:a', target: 'file:b', type: 'import' },
+				{ source: 'file:b', target: 'file:a', type: 'import' },
+				{ source: 'file:b', target: 'file:c', type: 'import' },
+				{ source: 'file:c', target: 'file:b', type: 'import', isTypeOnly: true }
+			]
+		};
+
+		annotateCycles(graph);
+
+		assert.deepStrictEqual(graph.cycles?.map(cycle => ({ ...cycle, nodeIds: [...cycle.nodeIds].sort() })), [
+			{ type: 'imports', nodeIds: ['file:a', 'file:b'] }
+		]);
+		assert.deepStrictEqual(graph.nodes.filter(n => n.isCycle).map(n => n.name), ['a', 'b']);
+		assert.deepStrictEqual(graph.edges.map(e => !!e.isCycle), [true, true, false, false]);
+	});
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { toDot, toMermaid, toJson } from '../graphExporter';
+import { GraphData } from '../types';
+
+const graph: GraphData = {
+	nodes: [
+		{ id: 'file:/src/app.ts', name: 'app.ts', type: 'file', filePath: '/src/app.ts', isActiveFile: true },
+		{ id: 'function:/src/app.ts:main', name: 'main', type: 'function', filePath: '/src/app.ts', line: 0 },
+		{ id: 'function:unknown:say "hi"', name: 'say "hi"', type: 'function', filePath: 'unknown', isExternal: true }
+	],
+	edges: [
+		{ source: 'file:/src/app.ts', target: 'function:/src/app.ts:main', type: 'contains' },
+		{ source: 'function:/src/app.ts:main', target: 'function:unknown:say "hi"', type: 'calls' }
+	]
+};
+
+suite('Graph Exporter Test Suite', () => {
+	test('DOT output quotes ids and escapes labels', () => {
+		const dot = toDot(graph);
+		assert.ok(dot.startsWith('digraph CodeContextMap {'));
+		assert.ok(dot.includes('"function:/src/app.ts:main" [label="main", shape=ellipse];'));
+		assert.ok(dot.includes('"function:unknown:say \\"hi\\"" [label="say \\"hi\\"", shape=ellipse, style=dashed];'));
+		assert.ok(dot.includes('"function:/src/app.ts:main" -> "function:unknown:say \\"hi\\"";'));
+	});
+
+	test('Mermaid output renumbers nodes', () => {
+		const lines = toMermaid(graph).trim().split('\n');
+		assert.strictEqual(lines[0], 'flowchart LR');
+		assert.ok(lines.includes('    n0["app.ts"]'));
+		assert.ok(lines.includes('    n2("say #quot;hi#quot;")'));
+		assert.ok(lines.includes('    n0 -.- n1'));
+		assert.ok(lines.includes('    n1 --> n2'));
+	});
+
+	test('JSON output round-trips the graph', () => {
+		assert.deepStrictEqual(JSON.parse(toJson(graph)), graph);
+	});
+});
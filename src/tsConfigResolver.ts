@@ -0,0 +1,223 @@
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorkspacePackageResolver } from './workspacePackages';
+
+export interface ProjectConfig {
+    configPath?: string;
+    options: ts.CompilerOptions;
+    references: ProjectConfig[];
+}
+
+// Used when no tsconfig/jsconfig is found for a file
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.CommonJS,
+    moduleResolution: ts.ModuleResolutionKind.Node10,
+    allowJs: true,
+    checkJs: false,
+    declaration: false,
+    outDir: './out',
+    strict: false,
+    esModuleInterop: true,
+    skipLibCheck: true,
+    forceConsistentCasingInFileNames: true
+};
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+
+function getExtension(filePath: string): ts.Extension {
+    switch (path.extname(filePath)) {
+        case '.tsx': return ts.Extension.Tsx;
+        case '.js': return ts.Extension.Js;
+        case '.jsx': return ts.Extension.Jsx;
+        case '.mts': return ts.Extension.Mts;
+        case '.cts': return ts.Extension.Cts;
+        case '.mjs': return ts.Extension.Mjs;
+        case '.cjs': return ts.Extension.Cjs;
+        default: return ts.Extension.Ts;
+    }
+}
+
+/**
+ * Locates and parses the tsconfig.json / jsconfig.json that owns a file and
+ * resolves module specifiers the same way the TypeScript compiler does, so
+ * `paths`/`baseUrl` aliases and project references are honored.
+ */
+export class TsConfigResolver {
+    private configCache = new Map<string, ProjectConfig>();
+    private configLookupCache = new Map<string, string | undefined>();
+    private resolutionCache = new Map<string, ts.ModuleResolutionCache>();
+
+    constructor(private readonly packages: WorkspacePackageResolver = new WorkspacePackageResolver()) {}
+
+    public getProjectForFile(filePath: string): ProjectConfig {
+        const configPath = this.findConfigFile(path.dirname(filePath));
+        if (!configPath) {
+            return { options: { ...DEFAULT_COMPILER_OPTIONS }, references: [] };
+        }
+
+        return this.loadConfig(configPath);
+    }
+
+    public resolveModule(moduleName: string, containingFile: string): ts.ResolvedModuleFull | undefined {
+        const project = this.getProjectForFile(containingFile);
+        const cacheKey = project.configPath ?? '';
+
+        let cache = this.resolutionCache.get(cacheKey);
+        if (!cache) {
+            cache = ts.createModuleResolutionCache(
+                project.configPath ? path.dirname(project.configPath) : path.dirname(containingFile),
+                fileName => fileName,
+                project.options
+            );
+            this.resolutionCache.set(cacheKey, cache);
+        }
+
+        const result = ts.resolveModuleName(moduleName, containingFile, project.options, ts.sys, cache);
+        return result.resolvedModule;
+    }
+
+    /**
+     * Resolves an import specifier to a source file on disk. Declaration files
+     * emitted by referenced projects are mapped back to their sources, and so are
+     * imports of workspace packages; external library imports are not followed.
+     */
+    public resolveSourceFile(moduleName: string, containingFile: string): string | null {
+        const packageSource = this.packages.resolve(moduleName, containingFile);
+        if (packageSource) {
+            return packageSource;
+        }
+
+        // The compiler does not know single-file components
+        if (moduleName.endsWith('.vue') && (moduleName.startsWith('.') || path.isAbsolute(moduleName))) {
+            const componentPath = path.resolve(path.dirname(containingFile), moduleName);
+            return fs.existsSync(componentPath) ? path.normalize(componentPath) : null;
+        }
+
+        const resolved = this.resolveModule(moduleName, containingFile);
+        if (!resolved || resolved.isExternalLibraryImport) {
+            return null;
+        }
+
+        const resolvedPath = path.normalize(resolved.resolvedFileName);
+        if (!resolvedPath.endsWith('.d.ts')) {
+            return resolvedPath;
+        }
+
+        const project = this.getProjectForFile(containingFile);
+        return this.mapDeclarationToSource(resolvedPath, project.references);
+    }
+
+    /**
+     * Module resolution hook for the analysis program: prefers the source files
+     * picked by resolveSourceFile so the type checker sees the same files as the graph.
+     */
+    public resolveModuleForProgram(moduleName: string, containingFile: string): ts.ResolvedModuleFull | undefined {
+        const sourcePath = this.resolveSourceFile(moduleName, containingFile);
+        if (sourcePath) {
+            return {
+                resolvedFileName: sourcePath,
+                extension: getExtension(sourcePath),
+                isExternalLibraryImport: false
+            };
+        }
+
+        return this.resolveModule(moduleName, containingFile);
+    }
+
+    public clearCache(): void {
+        this.configCache.clear();
+        this.configLookupCache.clear();
+        this.resolutionCache.clear();
+        this.packages.clearCache();
+    }
+
+    private findConfigFile(directory: string): string | undefined {
+        if (this.configLookupCache.has(directory)) {
+            return this.configLookupCache.get(directory);
+        }
+
+        let found: string | undefined;
+        for (const configName of ['tsconfig.json', 'jsconfig.json']) {
+            const candidate = path.join(directory, configName);
+            if (fs.existsSync(candidate)) {
+                found = candidate;
+                break;
+            }
+        }
+
+        if (!found) {
+            const parent = path.dirname(directory);
+            if (parent !== directory) {
+                found = this.findConfigFile(parent);
+            }
+        }
+
+        this.configLookupCache.set(directory, found);
+        return found;
+    }
+
+    private loadConfig(configPath: string, loading = new Set<string>()): ProjectConfig {
+        const cached = this.configCache.get(configPath);
+        if (cached) {
+            return cached;
+        }
+
+        const project: ProjectConfig = {
+            configPath,
+            options: { ...DEFAULT_COMPILER_OPTIONS },
+            references: []
+        };
+        loading.add(configPath);
+
+        // readConfigFile tolerates comments and trailing commas; parseJsonConfigFileContent follows `extends` chains
+        const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
+        if (configFile.error) {
+            console.warn(`Error reading ${configPath}:`, ts.flattenDiagnosticMessageText(configFile.error.messageText, '\n'));
+        } else {
+            const parsed = ts.parseJsonConfigFileContent(configFile.config, ts.sys, path.dirname(configPath), undefined, configPath);
+            // jsconfig.json implies allowJs; either way we want JavaScript files in the graph
+            project.options = { ...parsed.options, allowJs: true, noEmit: true, skipLibCheck: true };
+
+            for (const reference of parsed.projectReferences ?? []) {
+                const referencePath = ts.resolveProjectReferencePath(reference);
+                if (!loading.has(referencePath) && fs.existsSync(referencePath)) {
+                    project.references.push(this.loadConfig(referencePath, loading));
+                }
+            }
+        }
+
+        this.configCache.set(configPath, project);
+        return project;
+    }
+
+    private mapDeclarationToSource(declarationPath: string, references: ProjectConfig[], visited = new Set<ProjectConfig>()): string | null {
+        for (const reference of references) {
+            if (visited.has(reference) || !reference.configPath) {
+                continue;
+            }
+            visited.add(reference);
+
+            const projectDir = path.dirname(reference.configPath);
+            const outDir = reference.options.declarationDir ?? reference.options.outDir;
+            if (outDir && declarationPath.startsWith(path.normalize(outDir) + path.sep)) {
+                const rootDir = reference.options.rootDir ?? projectDir;
+                const relative = path.relative(path.normalize(outDir), declarationPath).replace(/\.d\.ts$/, '');
+                for (const ext of SOURCE_EXTENSIONS) {
+                    const candidate = path.join(rootDir, relative + ext);
+                    if (fs.existsSync(candidate)) {
+                        return path.normalize(candidate);
+                    }
+                }
+            }
+
+            const nested = this.mapDeclarationToSource(declarationPath, reference.references, visited);
+            if (nested) {
+                return nested;
+            }
+        }
+
+        return null;
+    }
+}
@@ -1,26 +1,107 @@
 export interface GraphNode {
     id: string;
     name: string;
-    type: 'file' | 'function' | 'class' | 'variable' | 'interface' | 'enum';
+    type: 'file' | 'folder' | 'function' | 'class' | 'variable' | 'interface' | 'enum' | 'library';
     filePath: string;
     line?: number;
     column?: number;
     size?: number;
     dependencies?: string[];
     isActiveFile?: boolean;
+    isFocused?: boolean;
+    group?: string;
+    isCycle?: boolean;
     isExternal?: boolean;
+    // Set on placeholder nodes for calls the type checker could not pin to one declaration
+    resolution?: 'unresolved' | 'ambiguous';
+    // Set on the root node of an entry point call tree, e.g. 'express'
+    entryPointKind?: string;
+    // React function components and class component render methods
+    isComponent?: boolean;
+    // Set on functions and methods analyzed from source; `size` mirrors `metrics.lines`
+    metrics?: FunctionMetrics;
+    // Found by the last dead code search: nothing exported, no entry point and no caller reaches it
+    isDead?: boolean;
+    // Name of the workspace folder containing the node, set in multi-root workspaces
+    workspaceFolder?: string;
+    // Name of the npm/yarn/pnpm workspace package containing the node, or of the library an external node belongs to
+    package?: string;
+}
+
+export interface FunctionMetrics {
+    // Cyclomatic complexity: 1 + branches (if, ?:, loops, case, catch, &&, ||, ??)
+    complexity: number;
+    lines: number;
+    parameters: number;
+    // Distinct functions calling, rendering or referencing this one, and the ones it reaches
+    fanIn: number;
+    fanOut: number;
 }
 
 export interface GraphEdge {
     source: string;
     target: string;
-    type: 'import' | 'export' | 'calls' | 'extends' | 'implements' | 'contains' | 'references';
+    type: 'import' | 'export' | 'calls' | 'dispatch' | 'renders' | 'extends' | 'implements' | 'contains' | 'references';
     weight?: number;
+    isTypeOnly?: boolean;
+    isCycle?: boolean;
+    asyncKind?: AsyncCallKind;
+    // Set when source and target belong to different workspace packages
+    isPackageBoundary?: boolean;
+    // Every place the source calls, renders or references the target; `weight` is their count
+    callSites?: CallSite[];
+}
+
+// A zero-based position of a call with the trimmed source line it appears on
+export interface CallSite {
+    filePath: string;
+    line: number;
+    column: number;
+    snippet: string;
+    asyncKind?: AsyncCallKind;
 }
 
+// How a call handles the promise it gets back: `await`ed, returned to the caller,
+// chained with `.then`/`.catch`/`.finally`, or left floating (fire-and-forget)
+export type AsyncCallKind = 'awaited' | 'returned' | 'chained' | 'floating';
+
+export type MapMode = 'calls' | 'callers' | 'types' | 'modules' | 'entry';
+
 export interface GraphData {
     nodes: GraphNode[];
     edges: GraphEdge[];
+    cycles?: GraphCycle[];
+    // Nodes left out because the graph exceeded the node limit
+    truncatedNodeCount?: number;
+}
+
+export interface GraphCycle {
+    type: 'calls' | 'imports';
+    nodeIds: string[];
+}
+
+export interface ImportCycle {
+    files: string[];
+    // The import declarations that keep the cycle together, with zero-based module specifier positions
+    imports: Array<{
+        filePath: string;
+        targetFilePath: string;
+        modulePath: string;
+        line: number;
+        column: number;
+    }>;
+}
+
+export interface EntryPoint {
+    // `entry:<file>:<line>:<column>`
+    id: string;
+    kind: string;
+    label: string;
+    filePath: string;
+    line: number;
+    column: number;
+    // Ids of the functions the framework invokes for this entry point
+    targets: string[];
 }
 
 export interface CodeContext {
@@ -0,0 +1,33 @@
+import * as ts from 'typescript';
+
+export interface VueScript {
+    text: string;
+    scriptKind: ts.ScriptKind;
+}
+
+export function isVueFile(filePath: string): boolean {
+    return filePath.endsWith('.vue');
+}
+
+/**
+ * Turns a single-file component into the code of its `<script>` and `<script setup>`
+ * blocks. Everything else is blanked out rather than removed, so line and column
+ * numbers still point into the .vue file.
+ */
+export function extractVueScript(content: string): VueScript {
+    const blank = (text: string) => text.replace(/[^\r\n]/g, ' ');
+    const scriptPattern = /(<script\b([^>]*)>)([\s\S]*?)(<\/script\s*>)/gi;
+
+    let text = '';
+    let lastIndex = 0;
+    let lang = 'js';
+    for (let match = scriptPattern.exec(content); match; match = scriptPattern.exec(content)) {
+        text += blank(content.slice(lastIndex, match.index)) + blank(match[1]) + match[3] + blank(match[4]);
+        lastIndex = match.index + match[0].length;
+        lang = /\blang\s*=\s*["']?(\w+)/i.exec(match[2])?.[1].toLowerCase() ?? lang;
+    }
+    text += blank(content.slice(lastIndex));
+
+    const scriptKinds: Record<string, ts.ScriptKind> = { ts: ts.ScriptKind.TS, tsx: ts.ScriptKind.TSX, jsx: ts.ScriptKind.JSX };
+    return { text, scriptKind: scriptKinds[lang] ?? ts.ScriptKind.JS };
+}
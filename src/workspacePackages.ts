@@ -0,0 +1,330 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface WorkspacePackage {
+    name: string;
+    directory: string;
+    manifest: PackageManifest;
+}
+
+type PackageExports = string | null | PackageExports[] | { [key: string]: PackageExports };
+
+interface PackageManifest {
+    name?: string;
+    main?: string;
+    module?: string;
+    types?: string;
+    typings?: string;
+    source?: string;
+    exports?: PackageExports;
+    workspaces?: string[] | { packages?: string[] };
+}
+
+// Tried in order when an `exports` entry has conditions; the ones closest to the sources come first
+const EXPORT_CONDITIONS = ['source', 'types', 'typings', 'import', 'module', 'require', 'node', 'default'];
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx'];
+// Build output folders that usually mirror `src`
+const BUILD_DIRECTORIES = ['dist', 'lib', 'build', 'out'];
+
+/**
+ * Finds the packages of npm, yarn and pnpm workspaces and maps imports of them
+ * (`@acme/core`, `@acme/core/utils`) to their source files. Package managers link
+ * workspace packages into node_modules, so the compiler would treat them as external
+ * libraries and resolve them to their build output.
+ */
+export class WorkspacePackageResolver {
+    private workspaceRootCache = new Map<string, string | undefined>();
+    private packagesCache = new Map<string, WorkspacePackage[]>();
+
+    public resolve(moduleName: string, containingFile: string): string | null {
+        if (moduleName.startsWith('.') || path.isAbsolute(moduleName)) {
+            return null;
+        }
+
+        const segments = moduleName.split('/');
+        const nameLength = moduleName.startsWith('@') ? 2 : 1;
+        const packageName = segments.slice(0, nameLength).join('/');
+        const workspacePackage = this.getPackages(containingFile).find(candidate => candidate.name === packageName);
+        return workspacePackage ? this.resolveEntryPoint(workspacePackage, segments.slice(nameLength).join('/')) : null;
+    }
+
+    // The innermost workspace package containing the file
+    public getPackageForFile(filePath: string): WorkspacePackage | undefined {
+        return this.getPackages(filePath)
+            .filter(candidate => isInside(candidate.directory, filePath))
+            .sort((a, b) => b.directory.length - a.directory.length)[0];
+    }
+
+    private getPackages(filePath: string): WorkspacePackage[] {
+        const workspaceRoot = this.findWorkspaceRoot(path.dirname(filePath));
+        if (!workspaceRoot) {
+            return [];
+        }
+
+        let packages = this.packagesCache.get(workspaceRoot);
+        if (!packages) {
+            packages = this.loadPackages(workspaceRoot);
+            this.packagesCache.set(workspaceRoot, packages);
+        }
+        return packages;
+    }
+
+    public clearCache(): void {
+        this.workspaceRootCache.clear();
+        this.packagesCache.clear();
+    }
+
+    private findWorkspaceRoot(directory: string): string | undefined {
+        if (this.workspaceRootCache.has(directory)) {
+            return this.workspaceRootCache.get(directory);
+        }
+
+        let found: string | undefined;
+        if (this.getWorkspacePatterns(directory).length > 0) {
+            found = directory;
+        } else {
+            const parent = path.dirname(directory);
+            if (parent !== directory) {
+                found = this.findWorkspaceRoot(parent);
+            }
+        }
+
+        this.workspaceRootCache.set(directory, found);
+        return found;
+    }
+
+    // Package globs from `workspaces` in package.json (npm, yarn) and pnpm-workspace.yaml
+    private getWorkspacePatterns(directory: string): string[] {
+        const workspaces = readManifest(path.join(directory, 'package.json'))?.workspaces;
+        const patterns = Array.isArray(workspaces) ? [...workspaces] : [...(workspaces?.packages ?? [])];
+
+        const pnpmWorkspacePath = path.join(directory, 'pnpm-workspace.yaml');
+        if (fs.existsSync(pnpmWorkspacePath)) {
+            patterns.push(...parsePnpmWorkspacePackages(fs.readFileSync(pnpmWorkspacePath, 'utf-8')));
+        }
+        return patterns;
+    }
+
+    private loadPackages(workspaceRoot: string): WorkspacePackage[] {
+        const patterns = this.getWorkspacePatterns(workspaceRoot);
+        const directories = new Set<string>();
+        for (const pattern of patterns.filter(pattern => !pattern.startsWith('!'))) {
+            expandDirectoryPattern(workspaceRoot, pattern).forEach(directory => directories.add(directory));
+        }
+        for (const pattern of patterns.filter(pattern => pattern.startsWith('!'))) {
+            expandDirectoryPattern(workspaceRoot, pattern.slice(1)).forEach(directory => directories.delete(directory));
+        }
+
+        const packages: WorkspacePackage[] = [];
+        for (const directory of directories) {
+            const manifest = readManifest(path.join(directory, 'package.json'));
+            if (manifest?.name) {
+                packages.push({ name: manifest.name, directory, manifest });
+            }
+        }
+        return packages;
+    }
+
+    private resolveEntryPoint(workspacePackage: WorkspacePackage, subpath: string): string | null {
+        const { manifest, directory } = workspacePackage;
+        const targets: string[] = [];
+
+        const exportTarget = getExportTarget(manifest.exports, subpath ? `./${subpath}` : '.');
+        if (exportTarget) {
+            targets.push(exportTarget);
+        }
+        if (subpath) {
+            targets.push(subpath, path.join('src', subpath));
+        } else {
+            for (const field of [manifest.source, manifest.types, manifest.typings, manifest.module, manifest.main]) {
+                if (field) {
+                    targets.push(field);
+                }
+            }
+            targets.push('src/index', 'index');
+        }
+
+        for (const target of targets) {
+            const sourcePath = findSourceFile(directory, target);
+            if (sourcePath) {
+                return sourcePath;
+            }
+        }
+        return null;
+    }
+}
+
+function readManifest(manifestPath: string): PackageManifest | undefined {
+    try {
+        return JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Reads the `packages` list of a pnpm-workspace.yaml, in block (`- 'packages/*'`)
+ * or flow (`packages: ['packages/*']`) style, without a YAML parser.
+ */
+function parsePnpmWorkspacePackages(content: string): string[] {
+    const unquote = (value: string) => value.trim().replace(/^['"]|['"]$/g, '');
+    const patterns: string[] = [];
+    let inPackages = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/\s+#.*$/, '');
+        const flow = /^packages\s*:\s*\[(.*)\]/.exec(line);
+        if (flow) {
+            patterns.push(...flow[1].split(',').map(unquote).filter(Boolean));
+            continue;
+        }
+        if (/^packages\s*:/.test(line)) {
+            inPackages = true;
+            continue;
+        }
+        if (inPackages) {
+            const item = /^\s*-\s*(.+)$/.exec(line);
+            if (item) {
+                patterns.push(unquote(item[1]));
+            } else if (/^\S/.test(line)) {
+                inPackages = false;
+            }
+        }
+    }
+
+    return patterns;
+}
+
+// Expands a workspace glob such as `packages/*` or `apps/**` to existing directories
+function expandDirectoryPattern(root: string, pattern: string): string[] {
+    let directories = [root];
+    for (const segment of pattern.split('/').filter(segment => segment && segment !== '.')) {
+        const matches: string[] = [];
+        for (const directory of directories) {
+            if (segment === '**') {
+                matches.push(directory, ...listDirectories(directory, true));
+            } else if (segment.includes('*')) {
+                const segmentPattern = new RegExp('^' + segment.split('*').map(escapeRegExp).join('.*') + '$');
+                matches.push(...listDirectories(directory, false).filter(child => segmentPattern.test(path.basename(child))));
+            } else if (isDirectory(path.join(directory, segment))) {
+                matches.push(path.join(directory, segment));
+            }
+        }
+        directories = matches;
+    }
+    return directories.map(directory => path.normalize(directory));
+}
+
+function listDirectories(directory: string, recursive: boolean): string[] {
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(directory, { withFileTypes: true });
+    } catch {
+        return [];
+    }
+
+    const directories: string[] = [];
+    for (const entry of entries) {
+        if (entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+            const child = path.join(directory, entry.name);
+            directories.push(child, ...(recursive ? listDirectories(child, true) : []));
+        }
+    }
+    return directories;
+}
+
+/**
+ * Picks the target of a subpath (`.`, `./utils`) from an `exports` field, following
+ * conditions in EXPORT_CONDITIONS order and `*` subpath patterns.
+ */
+function getExportTarget(exports: PackageExports | undefined, subpath: string): string | undefined {
+    if (exports === undefined || exports === null) {
+        return undefined;
+    }
+
+    const isSubpathMap = typeof exports === 'object' && !Array.isArray(exports) && Object.keys(exports).some(key => key.startsWith('.'));
+    if (!isSubpathMap) {
+        return subpath === '.' ? pickExportCondition(exports) : undefined;
+    }
+
+    const subpaths = exports as { [key: string]: PackageExports };
+    if (subpath in subpaths) {
+        return pickExportCondition(subpaths[subpath]);
+    }
+
+    for (const [key, value] of Object.entries(subpaths)) {
+        const [prefix, suffix] = key.split('*');
+        if (suffix !== undefined && subpath.startsWith(prefix) && subpath.endsWith(suffix)) {
+            const match = subpath.slice(prefix.length, subpath.length - suffix.length);
+            return pickExportCondition(value)?.replace('*', match);
+        }
+    }
+    return undefined;
+}
+
+function pickExportCondition(value: PackageExports): string | undefined {
+    if (typeof value === 'string') {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(pickExportCondition).find(Boolean);
+    }
+    if (value) {
+        for (const condition of EXPORT_CONDITIONS) {
+            const target = value[condition] !== undefined ? pickExportCondition(value[condition]) : undefined;
+            if (target) {
+                return target;
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Maps an entry point to the source file it was built from: `dist/index.d.ts` and
+ * `lib/index.js` become `src/index.ts`. Falls back to the entry point itself when it
+ * is a JavaScript or TypeScript file with no source next to it.
+ */
+function findSourceFile(packageDirectory: string, target: string): string | null {
+    const withoutExtension = target.replace(/\.d\.[mc]?ts$|\.[mc]?[jt]sx?$/, '');
+    const segments = path.normalize(withoutExtension).split(path.sep).filter(segment => segment && segment !== '.');
+
+    const candidates: string[] = [];
+    if (BUILD_DIRECTORIES.includes(segments[0])) {
+        // `dist/esm/index.js` was usually built from `src/index.ts`
+        const rest = segments.slice(['esm', 'cjs', 'types'].includes(segments[1]) ? 2 : 1);
+        candidates.push(path.join('src', ...rest), rest.join(path.sep));
+    }
+    candidates.push(segments.join(path.sep));
+
+    for (const candidate of candidates) {
+        for (const extension of SOURCE_EXTENSIONS) {
+            for (const filePath of [candidate + extension, path.join(candidate, 'index' + extension)]) {
+                const fullPath = path.join(packageDirectory, filePath);
+                if (fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()) {
+                    return path.normalize(fullPath);
+                }
+            }
+        }
+    }
+
+    const fullTarget = path.join(packageDirectory, target);
+    return /\.[mc]?[jt]sx?$/.test(target) && !/\.d\.[mc]?ts$/.test(target) && fs.existsSync(fullTarget) ? path.normalize(fullTarget) : null;
+}
+
+function isInside(directory: string, filePath: string): boolean {
+    const relativePath = path.relative(directory, filePath);
+    return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
+
+function isDirectory(directory: string): boolean {
+    try {
+        return fs.statSync(directory).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}